@@ -0,0 +1,72 @@
+// app/api/parse-batch/route.ts
+export const runtime = "nodejs";        // keep PDF libs happy
+export const dynamic = "force-dynamic"; // file uploads + no caching
+import { NextResponse } from "next/server";
+
+// POST multipart with any number of `files` (or `file`) fields; ZIP archives are expanded.
+// Same ?layout=1 / ?profile=<id> / ?account_type=<type> / ?functional_currency=<ISO> / ?ocr_lang=<langs> /
+// ?duplicates=flag|off&duplicate_days=N / ?store=0 options
+// as /api/parse-statement, applied to every file; optional `password` / `account_number` / `birthdate` / `last_name`
+// fields are used on every encrypted PDF.
+export async function POST(req: Request) {
+  const url = new URL(req.url);
+  try {
+    const form = await req.formData();
+    const uploads = [...form.getAll("files"), ...form.getAll("file")].filter((v): v is File => typeof v !== "string");
+    if (!uploads.length) {
+      return NextResponse.json({ error: "No files uploaded", details: "send one or more `files` fields or a ZIP archive" }, { status: 400 });
+    }
+
+    const password = form.get("password");
+    const { passwordHintsFromForm } = await import("@/lib/pdf-passwords");
+    const { hints: passwordHints, error: hintsError } = passwordHintsFromForm(form);
+    if (hintsError) return NextResponse.json({ error: "Invalid password hints", details: hintsError }, { status: 400 });
+    const files = await Promise.all(uploads.map(async f => ({
+      name: f.name || "upload",
+      type: f.type || "",
+      buf: Buffer.from(await f.arrayBuffer()),
+    })));
+
+    const { ACCOUNT_TYPES, normalizeAccountType } = await import("@/lib/account-type");
+    const accountTypeParam = url.searchParams.get("account_type");
+    const accountType = normalizeAccountType(accountTypeParam ?? "");
+    if (accountTypeParam && !accountType) {
+      return NextResponse.json(
+        { error: "Unsupported account type", details: `account_type must be one of: ${ACCOUNT_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const { fxOptionsFromQuery } = await import("@/lib/fx-rates");
+    const { fx, error: fxError } = fxOptionsFromQuery(url.searchParams);
+    if (fxError) return NextResponse.json({ error: "Invalid FX options", details: fxError }, { status: 400 });
+
+    const { duplicateOptionsFromQuery } = await import("@/lib/duplicates");
+    const { options: duplicates, error: dupError } = duplicateOptionsFromQuery(url.searchParams);
+    if (!duplicates) return NextResponse.json({ error: "Invalid duplicate options", details: dupError }, { status: 400 });
+
+    const { ocrOptionsFromQuery } = await import("@/lib/ocr");
+    const { ocr, error: ocrError } = ocrOptionsFromQuery(url.searchParams);
+    if (ocrError) return NextResponse.json({ error: "Invalid OCR options", details: ocrError }, { status: 400 });
+
+    const { parseBatch, summarizeBatch } = await import("@/lib/batch");
+    const { getStatementStore } = await import("@/lib/statement-store");
+    const results = await parseBatch(files, {
+      layout: url.searchParams.get("layout") === "1",
+      profile: url.searchParams.get("profile") ?? undefined,
+      ...(typeof password === "string" && password ? { password } : {}),
+      passwordHints,
+      accountType: accountType ?? undefined,
+      fx,
+      ocr,
+      duplicates,
+      ...(url.searchParams.get("store") === "0" ? {} : { store: getStatementStore() }),
+    });
+    return NextResponse.json({ summary: summarizeBatch(results), results });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "Failed to parse batch", details: e?.message ?? String(e) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,30 +1,106 @@
 // app/api/parse-statement/route.ts
 export const runtime = "nodejs";        // keep PDF libs happy
 export const dynamic = "force-dynamic"; // file uploads + no caching
-import type { PdfParseResult } from "@/lib/types"; // or "@/lib/pdf-parser" if exported there
-
 import { NextResponse } from "next/server";
-import type { InRow } from "@/lib/rows-to-normalized";
+import type { NormalizedStatement } from "@/lib/types";
+import type { StatementKind } from "@/lib/parse-pipeline";
+import type { DuplicateOptions } from "@/lib/duplicates";
+import type { PasswordHints } from "@/lib/pdf-passwords";
 
-type Detected = { kind: "csv" | "pdf" | "xlsx" | "unknown"; buf: Buffer };
+type Upload = { kind: StatementKind; buf: Buffer; name: string; password?: string; passwordHints?: PasswordHints; hintsError?: string };
 
-async function readFileFromForm(req: Request): Promise<Detected> {
+async function readFileFromForm(req: Request): Promise<Upload> {
   const form = await req.formData();
   const file = form.get("file") as File | null;
   if (!file) throw new Error("No file uploaded");
+  const password = form.get("password");   // optional, for encrypted PDFs
+  // optional account_number / birthdate / last_name fill the configured password patterns
+  const { passwordHintsFromForm } = await import("@/lib/pdf-passwords");
+  const { hints, error: hintsError } = passwordHintsFromForm(form);
 
   const ab = await file.arrayBuffer();
   const buf = Buffer.from(ab); // ✅ modern Buffer API
 
-  const name = (file.name || "").toLowerCase();
-  const mime = (file.type || "").toLowerCase();
-  const first4 = buf.slice(0, 4).toString("ascii");
+  const { detectKind } = await import("@/lib/parse-pipeline");
+  return {
+    kind: await detectKind(file.name, file.type, buf),
+    buf,
+    name: file.name,
+    ...(typeof password === "string" && password ? { password } : {}),
+    passwordHints: hints,
+    hintsError,
+  };
+}
+
+// Keep the conversion in the statement history (lib/statement-store.ts) unless ?store=0
+async function storeResult(url: URL, body: Record<string, unknown>, normalized: NormalizedStatement, buf: Buffer, name: string) {
+  if (url.searchParams.get("store") === "0") return {};
+  const { fileHashOf, getStatementStore } = await import("@/lib/statement-store");
+  const rec = await getStatementStore().save({
+    file_hash: fileHashOf(buf),
+    file_name: name,
+    kind: String(body.kind),
+    ...(typeof body.strategy === "string" ? { strategy: body.strategy } : {}),
+    warnings: Array.isArray(body.warnings) ? body.warnings.map(String) : [],
+    statement: normalized,
+  });
+  return { statement_id: rec.id };
+}
 
-  if (name.endsWith(".csv") || mime.includes("text/csv")) return { kind: "csv", buf };
-  if (first4 === "%PDF" || name.endsWith(".pdf") || mime.includes("pdf")) return { kind: "pdf", buf };
-  if (name.endsWith(".xlsx") || mime.includes("spreadsheet")) return { kind: "xlsx", buf };
+async function buildEntries(normalized: NormalizedStatement, drop: Set<number> = new Set()) {
+  const { categorizeStatement, loadRules } = await import("@/lib/categorize");
+  const { buildJournalEntries, loadGlConfig } = await import("@/lib/journal-entries");
+  const categories = categorizeStatement(normalized, loadRules());
+  // offset accounts come from the matched rule, else the GL config default
+  const journal_entries = buildJournalEntries(normalized, loadGlConfig(), (_txn, i) => {
+    const c = categories[i];
+    return c?.account ? { account: c.account, memo: c.memo } : null;
+  }).filter(e => !drop.has(e.txn_index));
+  return { categories, journal_entries };
+}
 
-  return { kind: "unknown", buf };
+// ?explain=1 → checks/weights/jitter behind every row_point, header.row_point and doc_point
+async function explainExtras(url: URL, normalized: NormalizedStatement) {
+  if (url.searchParams.get("explain") !== "1") return {};
+  const { explainStatement } = await import("@/lib/normalize");
+  return { explain: explainStatement(normalized) };
+}
+
+// ?categorize=1 → per-row rule matches; ?output=je → also balanced journal entries
+async function outputExtras(url: URL, normalized: NormalizedStatement, drop: Set<number>) {
+  const explain = await explainExtras(url, normalized);
+  const wantJe = url.searchParams.get("output") === "je";
+  if (!wantJe && url.searchParams.get("categorize") !== "1") return explain;
+
+  const { categories, journal_entries } = await buildEntries(normalized, drop);
+  return wantJe ? { ...explain, categories, journal_entries } : { ...explain, categories };
+}
+
+// ?format=iif|xero|gl → file download instead of JSON.
+// Duplicate check against earlier uploads of the same bank_account (lib/duplicates.ts):
+// ?duplicates=flag (default) reports them, =drop also leaves them out of entries/exports, =off skips
+// the check and the index update. ?duplicate_days=N widens the posting-date tolerance.
+async function respond(url: URL, dup: DuplicateOptions, normalized: NormalizedStatement, body: Record<string, unknown>, buf: Buffer) {
+  const { checkDuplicates } = await import("@/lib/duplicates");
+  const { duplicates, drop } = await checkDuplicates(dup, normalized, buf);
+  const format = url.searchParams.get("format");
+  if (!format) return NextResponse.json({ ...body, duplicates, ...(await outputExtras(url, normalized, drop)) });
+
+  const { EXPORT_FORMATS, isExportFormat, exportFileName } = await import("@/lib/exporters");
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: "Unsupported export format", details: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const { journal_entries } = await buildEntries(normalized, drop);
+  const file = EXPORT_FORMATS[format].render(normalized, journal_entries);
+  return new NextResponse(file, {
+    headers: {
+      "Content-Type": `${EXPORT_FORMATS[format].mime}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${exportFileName(normalized, format)}"`,
+    },
+  });
 }
 
 export async function POST(req: Request) {
@@ -39,64 +115,54 @@ export async function POST(req: Request) {
   }
 
   try {
-    const { kind, buf } = await readFileFromForm(req);
-
-    if (kind === "csv") {
-      const { parseCsv } = await import("@/lib/csv-parser");
-      const { rowsToNormalized } = await import("@/lib/rows-to-normalized");
-
-      // Whatever your CSV parser returns, map to InRow[]
-      const rawRows = (parseCsv as any)(buf) as any[];
-      const inRows: InRow[] = (rawRows ?? []).map((r: any) => ({
-        date: String(r.date ?? r.Date ?? r["Transaction Date"] ?? r["Date"] ?? "").trim(),
-        description: String(r.description ?? r.Description ?? r["Details"] ?? r["Narration"] ?? "").trim(),
-        amount: String(r.amount ?? r.Amount ?? r["Debit"] ?? r["Credit"] ?? "").trim(),
-        currency: String(r.currency ?? r.Currency ?? "").trim(),
-      }));
-
-      const normalized = rowsToNormalized(inRows);
-      return NextResponse.json({ kind, ...normalized });
-    }
-
-    if (kind === "pdf") {
-      const { parsePdfSmart } = await import("@/lib/pdf-parser");
-      const pdf = await parsePdfSmart(buf); // { text, warnings?, strategy? }
-
-      if (pdf.text && pdf.text.trim()) {
-        const { parsePdfTextToNormalized } = await import("@/lib/pdf-text-parser");
-        const normalized = parsePdfTextToNormalized(pdf.text);
-        return NextResponse.json({
-          kind,
-          strategy: pdf.strategy,
-          ...normalized,
-          warnings: pdf.warnings ?? [],
-        });
-      }
-
-      // No text at all — surface parser warnings
+    const { kind, buf, name, password, passwordHints, hintsError } = await readFileFromForm(req);
+    if (hintsError) return NextResponse.json({ error: "Invalid password hints", details: hintsError }, { status: 400 });
+    const { parseStatement } = await import("@/lib/parse-pipeline");
+    const { ACCOUNT_TYPES, normalizeAccountType } = await import("@/lib/account-type");
+
+    // ?account_type=deposit|credit_card|loan overrides detection
+    const accountTypeParam = url.searchParams.get("account_type");
+    const accountType = normalizeAccountType(accountTypeParam ?? "");
+    if (accountTypeParam && !accountType) {
       return NextResponse.json(
-        { error: "No extractable text", details: (pdf.warnings ?? []).join(" | ") || "unknown" },
-        { status: 422 }
+        { error: "Unsupported account type", details: `account_type must be one of: ${ACCOUNT_TYPES.join(", ")}` },
+        { status: 400 }
       );
     }
 
-    if (kind === "xlsx") {
-      const { parseXlsx } = await import("@/lib/xlsx-parser");
-      const { rowsToNormalized } = await import("@/lib/rows-to-normalized");
-
-      const rawRows = await (parseXlsx as any)(buf); // any[]
-      const inRows: InRow[] = (rawRows ?? []).map((r: any) => ({
-        date: String(r.date ?? r.Date ?? r["Transaction Date"] ?? r["Date"] ?? "").trim(),
-        description: String(r.description ?? r.Description ?? r["Details"] ?? r["Narration"] ?? "").trim(),
-        amount: String(r.amount ?? r.Amount ?? r["Debit"] ?? r["Credit"] ?? "").trim(),
-        currency: String(r.currency ?? r.Currency ?? "").trim(),
-      }));
-
-      const normalized = rowsToNormalized(inRows);
-      return NextResponse.json({ kind, ...normalized });
+    // ?functional_currency=PHP[&fx_policy=same_day|previous_business_day|month_end] → functional amounts per row
+    const { fxOptionsFromQuery } = await import("@/lib/fx-rates");
+    const { fx, error: fxError } = fxOptionsFromQuery(url.searchParams);
+    if (fxError) return NextResponse.json({ error: "Invalid FX options", details: fxError }, { status: 400 });
+
+    const { duplicateOptionsFromQuery } = await import("@/lib/duplicates");
+    const { options: dup, error: dupError } = duplicateOptionsFromQuery(url.searchParams);
+    if (!dup) return NextResponse.json({ error: "Invalid duplicate options", details: dupError }, { status: 400 });
+
+    // ?ocr_lang=eng+fil / ?ocr_crop_header=0.12 / ?ocr_preprocess=0 for scanned PDFs
+    const { ocrOptionsFromQuery } = await import("@/lib/ocr");
+    const { ocr, error: ocrError } = ocrOptionsFromQuery(url.searchParams);
+    if (ocrError) return NextResponse.json({ error: "Invalid OCR options", details: ocrError }, { status: 400 });
+
+    // ?layout=1 → pdf.js layout mode (column cells from text coordinates) before the text chain;
+    // ?profile=<id> forces a PDF bank profile (and limits candidate passwords to its list and "*")
+    const parsed = await parseStatement(kind, buf, {
+      layout: url.searchParams.get("layout") === "1",
+      profile: url.searchParams.get("profile") ?? undefined,
+      password,
+      passwordHints,
+      accountType: accountType ?? undefined,
+      fx,
+      ocr,
+    });
+    if (!parsed.ok) {
+      return NextResponse.json(
+        parsed.details !== undefined ? { error: parsed.error, details: parsed.details } : { error: parsed.error },
+        { status: parsed.status }
+      );
     }
-
-    return NextResponse.json({ error: "Unsupported file type" }, { status: 415 });
+    const stored = await storeResult(url, parsed.body, parsed.normalized, buf, name);
+    return respond(url, dup, parsed.normalized, { ...parsed.body, ...stored }, buf);
   } catch (e: any) {
     return NextResponse.json(
       { error: "Failed to parse statement", details: e?.message ?? String(e) },
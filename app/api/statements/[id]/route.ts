@@ -0,0 +1,59 @@
+// app/api/statements/[id]/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// GET /api/statements/:id → full stored record (file hash, statement, warnings, strategy, timestamps)
+export async function GET(_req: Request, { params }: Ctx) {
+  const { id } = await params;
+  try {
+    const { getStatementStore } = await import("@/lib/statement-store");
+    const rec = await getStatementStore().get(id);
+    if (!rec) return NextResponse.json({ error: "Statement not found", details: id }, { status: 404 });
+    return NextResponse.json(rec);
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "Failed to read statement", details: e?.message ?? String(e) },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/statements/:id with { statement } → corrections from the review screen, rescored here;
+// the first parse stays in `original_statement` and each save is logged in `edits`
+export async function PUT(req: Request, { params }: Ctx) {
+  const { id } = await params;
+  try {
+    const body = await req.json();
+    const { reviewedStatement } = await import("@/lib/review-edits");
+    const { statement, error } = reviewedStatement(body?.statement);
+    if (!statement) return NextResponse.json({ error: "Invalid statement", details: error }, { status: 400 });
+    const { getStatementStore } = await import("@/lib/statement-store");
+    const rec = await getStatementStore().update(id, statement);
+    if (!rec) return NextResponse.json({ error: "Statement not found", details: id }, { status: 404 });
+    return NextResponse.json(rec);
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "Failed to update statement", details: e?.message ?? String(e) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/statements/:id
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { id } = await params;
+  try {
+    const { getStatementStore } = await import("@/lib/statement-store");
+    const deleted = await getStatementStore().delete(id);
+    if (!deleted) return NextResponse.json({ error: "Statement not found", details: id }, { status: 404 });
+    return NextResponse.json({ deleted: true, id });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "Failed to delete statement", details: e?.message ?? String(e) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/statements/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+import { NextResponse } from "next/server";
+
+// GET /api/statements?bank=BDO&account=1234-5678&from=2025-07-01&to=2025-09-30
+// → stored conversions (newest first), without their transactions
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  try {
+    const { getStatementStore } = await import("@/lib/statement-store");
+    const statements = await getStatementStore().list({
+      bank: url.searchParams.get("bank") ?? undefined,
+      account: url.searchParams.get("account") ?? undefined,
+      from: url.searchParams.get("from") ?? undefined,
+      to: url.searchParams.get("to") ?? undefined,
+    });
+    return NextResponse.json({ count: statements.length, statements });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "Failed to list statements", details: e?.message ?? String(e) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,22 @@
 "use client";
 import { useState } from "react";
+import type { NormalizedStatement } from "@/lib/types";
+import ReviewWorkbench, { ReviewInput } from "@/components/review-workbench";
 
-type Row = { date?: string; description?: string; amount?: string; currency?: string };
-
-export default function TestUpload() {
+export default function ReviewPage() {
   const [status, setStatus] = useState<"idle"|"loading"|"ok"|"error">("idle");
-  const [kind, setKind] = useState<string>("-");
-  const [rows, setRows] = useState<Row[]>([]);
-  const [textPreview, setTextPreview] = useState<string>("");   // <— for PDF text
+  const [error, setError] = useState<string>("");
   const [warnings, setWarnings] = useState<string[]>([]);
+  const [review, setReview] = useState<ReviewInput | null>(null);
   const [raw, setRaw] = useState<string>("");
 
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     setStatus("loading");
-    setRows([]);
-    setTextPreview("");
+    setError("");
     setWarnings([]);
+    setReview(null);
     setRaw("");
-    setKind("-");
 
     const fd = new FormData(e.currentTarget as HTMLFormElement);
     try {
@@ -34,33 +32,33 @@ export default function TestUpload() {
       // error from API?
       if (!res.ok || json?.error) {
         setStatus("error");
-        setKind(json?.kind ?? "-");
-        setWarnings([]);
+        setError([json?.error, json?.details].filter(Boolean).join(": ") || `HTTP ${res.status}`);
         return;
       }
 
-      // handle both shapes: CSV/XLSX -> rows[], PDF -> text + warnings[]
-      setKind(json.kind ?? "-");
-      const r = Array.isArray(json.rows) ? json.rows : [];
-      setRows(r);
-
-      const text = typeof json.text === "string" ? json.text : "";
-      setTextPreview(text);
-
-      const w = Array.isArray(json.warnings) ? json.warnings : [];
-      setWarnings(w);
-
+      const statement: NormalizedStatement = { header: json.header, transactions: json.transactions ?? [], footer: json.footer };
+      setReview({
+        statement,
+        kind: json.kind,
+        text: typeof json.text === "string" ? json.text : undefined,
+        statementId: json.statement_id,
+      });
+      setWarnings(Array.isArray(json.warnings) ? json.warnings : []);
       setStatus("ok");
-    } catch (err) {
+    } catch (err: any) {
       console.error("[UI] upload error:", err);
+      setError(err?.message ?? String(err));
       setStatus("error");
     }
   }
 
   return (
-    <main className="p-6 space-y-4 max-w-4xl mx-auto">
+    <main className="p-6 space-y-4 max-w-7xl mx-auto">
       <form onSubmit={onSubmit} className="space-y-2">
-        <input type="file" name="file" accept=".csv,.pdf,.xlsx" required />
+        <input type="file" name="file" accept=".csv,.pdf,.xlsx,.ofx,.qfx,.sta,.mt940,.940,.xml" required />
+        <input type="password" name="password" placeholder="PDF password (optional)" autoComplete="off" className="px-2 py-1 border rounded" />
+        <input type="date" name="birthdate" title="Birthdate for PDF password patterns (optional)" className="px-2 py-1 border rounded" />
+        <input type="text" name="account_number" placeholder="Account no. for PDF password (optional)" autoComplete="off" className="px-2 py-1 border rounded" />
         <button type="submit" disabled={status==="loading"} className="px-3 py-1 border rounded">
           {status === "loading" ? "Uploading…" : "Upload"}
         </button>
@@ -68,7 +66,7 @@ export default function TestUpload() {
 
       <section className="text-sm space-y-1">
         <div>status: <b>{status}</b></div>
-        <div>kind: <b>{kind}</b></div>
+        {error && <div className="text-red-700">{error}</div>}
         {warnings.length > 0 && (
           <div className="text-amber-700">
             <b>warnings:</b> {warnings.join(" • ")}
@@ -76,51 +74,16 @@ export default function TestUpload() {
         )}
       </section>
 
-      {/* CSV/XLSX table */}
-      {rows.length > 0 && (
-        <section>
-          <h2 className="font-semibold mb-2">Parsed rows ({rows.length})</h2>
-          <div className="overflow-auto border rounded max-h-96 text-sm">
-            <table className="min-w-full">
-              <thead className="sticky top-0 bg-white">
-                <tr>
-                  <th className="text-left p-2 border-b">date</th>
-                  <th className="text-left p-2 border-b">description</th>
-                  <th className="text-right p-2 border-b">amount</th>
-                  <th className="text-left p-2 border-b">currency</th>
-                </tr>
-              </thead>
-              <tbody>
-                {rows.map((r, i) => (
-                  <tr key={i}>
-                    <td className="p-2 border-b">{r.date ?? ""}</td>
-                    <td className="p-2 border-b">{r.description ?? ""}</td>
-                    <td className="p-2 border-b text-right">{r.amount ?? ""}</td>
-                    <td className="p-2 border-b">{r.currency ?? ""}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </section>
-      )}
+      {review && <ReviewWorkbench {...review} />}
 
-      {/* PDF text preview */}
-      {textPreview && (
-        <section>
-          <h2 className="font-semibold mb-2">PDF text (preview)</h2>
-          <pre className="whitespace-pre-wrap text-xs border rounded p-2 max-h-72 overflow-auto">
-            {textPreview.slice(0, 4000)}
+      {raw && (
+        <details>
+          <summary className="font-semibold cursor-pointer">Raw response (debug)</summary>
+          <pre className="whitespace-pre-wrap text-xs border rounded p-2 mt-2 max-h-72 overflow-auto">
+            {raw}
           </pre>
-        </section>
+        </details>
       )}
-
-      <section>
-        <h2 className="font-semibold mb-2">Raw response (debug)</h2>
-        <pre className="whitespace-pre-wrap text-xs border rounded p-2 max-h-72 overflow-auto">
-          {raw}
-        </pre>
-      </section>
     </main>
   );
 }
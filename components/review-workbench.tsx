@@ -0,0 +1,206 @@
+"use client";
+import { useState } from "react";
+import type { NormalizedStatement } from "@/lib/types";
+import { applyHeaderEdit, applyTxnEdit, HeaderField, TxnField } from "@/lib/review-edits";
+import { isLiabilityAccount } from "@/lib/normalize";
+
+type Footer = NormalizedStatement["footer"] & { balanced?: boolean; total_amount_parsed?: string; num_transactions?: number };
+
+export type ReviewInput = {
+  statement: NormalizedStatement;
+  kind?: string;
+  text?: string;            // full extracted PDF text
+  statementId?: string;     // stored record to save corrections into
+};
+
+const HEADER_FIELDS: HeaderField[] = [
+  "bank", "bank_account", "customer_account_number", "statement_date", "opening_balance", "closing_balance", "currency", "account_type",
+];
+const TXN_FIELDS: TxnField[] = ["date", "description", "amount", "currency"];
+
+function pointClass(p: string): string {
+  const n = Number(p);
+  if (n >= 0.9) return "bg-green-50";
+  if (n >= 0.7) return "bg-amber-50";
+  return "bg-red-50";
+}
+
+// Uncontrolled input: commits on blur / Enter; `key` on the value resets it after normalization
+function EditCell({ value, onCommit, className }: { value: string; onCommit: (v: string) => void; className?: string }) {
+  return (
+    <input
+      key={value}
+      defaultValue={value}
+      className={`w-full bg-transparent px-1 py-0.5 border border-transparent rounded hover:border-gray-300 focus:border-gray-500 outline-none ${className ?? ""}`}
+      onBlur={e => { if (e.currentTarget.value !== value) onCommit(e.currentTarget.value); }}
+      onKeyDown={e => { if (e.key === "Enter") e.currentTarget.blur(); }}
+    />
+  );
+}
+
+export default function ReviewWorkbench({ statement: initial, kind, text, statementId }: ReviewInput) {
+  const [stmt, setStmt] = useState<NormalizedStatement>(initial);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [save, setSave] = useState<"idle" | "saving" | "saved" | "error">("idle");
+
+  const footer = stmt.footer as Footer;
+  const sel = selected !== null ? stmt.transactions[selected] : undefined;
+
+  function edit(next: NormalizedStatement) {
+    setStmt(next);
+    setSave("idle");
+  }
+
+  async function saveCorrections() {
+    if (!statementId) return;
+    setSave("saving");
+    try {
+      const res = await fetch(`/api/statements/${statementId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ statement: stmt }),
+      });
+      setSave(res.ok ? "saved" : "error");
+    } catch {
+      setSave("error");
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header + footer status */}
+      <section className="grid gap-4 md:grid-cols-2">
+        <div className="border rounded p-3 text-sm">
+          <h2 className="font-semibold mb-2">Header <span className="font-normal text-gray-500">row_point {stmt.header.row_point}</span></h2>
+          <table className="w-full">
+            <tbody>
+              {HEADER_FIELDS.map(f => (
+                <tr key={f}>
+                  <td className="pr-2 text-gray-500 whitespace-nowrap">{f}</td>
+                  <td><EditCell value={stmt.header[f]} onCommit={v => edit(applyHeaderEdit(stmt, f, v))} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="border rounded p-3 text-sm space-y-1">
+          <h2 className="font-semibold mb-2">Footer</h2>
+          <div>kind: <b>{kind ?? "-"}</b></div>
+          <div>transactions: <b>{footer.num_transactions ?? stmt.transactions.length}</b></div>
+          <div>total parsed: <b>{footer.total_amount_parsed ?? "-"}</b></div>
+          <div>
+            balance:{" "}
+            {footer.balanced
+              ? <b className="text-green-700">{isLiabilityAccount(stmt.header.account_type) ? "opening − transactions = closing" : "opening + transactions = closing"}</b>
+              : <b className="text-red-700">does not reconcile</b>}
+          </div>
+          {footer.balance_chain && (
+            <div>
+              running balances:{" "}
+              {footer.balance_chain.ok
+                ? <b className="text-green-700">chain holds ({footer.balance_chain.checked} checked)</b>
+                : <b className="text-red-700">breaks at row {footer.balance_chain.first_break?.index}</b>}
+            </div>
+          )}
+          {footer.reconciliation && (
+            <div>
+              discrepancy: <b className="text-red-700">{footer.reconciliation.discrepancy}</b>
+              <ul className="list-disc pl-5 text-gray-700">
+                {footer.reconciliation.suggestions.map((s, i) => (
+                  <li key={i}>{s.message} <span className="text-gray-400">({s.confidence})</span></li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {footer.ocr && (
+            <div>
+              OCR ({footer.ocr.languages.join("+")}): <b>{footer.ocr.confidence}</b> mean page confidence
+              {footer.ocr.low_confidence_rows.length > 0 && (
+                <span className="text-amber-700">, low-confidence words in rows {footer.ocr.low_confidence_rows.map(i => i + 1).join(", ")}</span>
+              )}
+            </div>
+          )}
+          <div>doc_point: <b>{footer.doc_point}</b></div>
+          {statementId && (
+            <div className="pt-2">
+              <button
+                type="button"
+                onClick={saveCorrections}
+                disabled={save === "saving"}
+                className="px-3 py-1 border rounded"
+              >
+                {save === "saving" ? "Saving…" : "Save corrections"}
+              </button>
+              {save === "saved" && <span className="ml-2 text-green-700">saved</span>}
+              {save === "error" && <span className="ml-2 text-red-700">save failed</span>}
+            </div>
+          )}
+        </div>
+      </section>
+
+      {/* Transactions grid + source side panel */}
+      <section className="grid gap-4 lg:grid-cols-[2fr_1fr]">
+        <div className="overflow-auto border rounded max-h-[32rem] text-sm">
+          <table className="min-w-full">
+            <thead className="sticky top-0 bg-white">
+              <tr>
+                <th className="text-left p-2 border-b">#</th>
+                {TXN_FIELDS.map(f => (
+                  <th key={f} className={`p-2 border-b ${f === "amount" ? "text-right" : "text-left"}`}>{f}</th>
+                ))}
+                <th className="text-right p-2 border-b">row_point</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stmt.transactions.map((t, i) => (
+                <tr
+                  key={i}
+                  onClick={() => setSelected(i)}
+                  className={`${pointClass(t.row_point)} ${selected === i ? "outline outline-2 outline-gray-400" : ""}`}
+                >
+                  <td className="p-2 border-b text-gray-500">{i + 1}</td>
+                  {TXN_FIELDS.map(f => (
+                    <td key={f} className="p-1 border-b">
+                      <EditCell
+                        value={t[f]}
+                        className={f === "amount" ? "text-right" : undefined}
+                        onCommit={v => edit(applyTxnEdit(stmt, i, f, v))}
+                      />
+                    </td>
+                  ))}
+                  <td className="p-2 border-b text-right font-mono">{t.row_point}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="border rounded p-3 text-sm space-y-3">
+          <h2 className="font-semibold">Source</h2>
+          {sel ? (
+            <>
+              <pre className="whitespace-pre-wrap text-xs border rounded p-2 bg-gray-50">{sel.source ?? "(no source text for this row)"}</pre>
+              {sel.ocr && (
+                <p className="text-xs text-gray-600">
+                  OCR confidence {sel.ocr.confidence} over {sel.ocr.words} words
+                  {sel.ocr.low_confidence_words.length > 0 && (
+                    <>; check <span className="text-amber-700">{sel.ocr.low_confidence_words.join(" ")}</span></>
+                  )}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-gray-500">Select a transaction to see the text it was read from.</p>
+          )}
+          {text && (
+            <details>
+              <summary className="cursor-pointer">Extracted PDF text</summary>
+              <pre className="whitespace-pre-wrap text-xs border rounded p-2 mt-2 max-h-96 overflow-auto">{text}</pre>
+            </details>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
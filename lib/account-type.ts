@@ -0,0 +1,82 @@
+// lib/account-type.ts
+// Deposit vs credit card vs loan statements. Normalized amounts are always from the account holder's
+// side (spending negative, payments and deposits positive); card and loan balances are amounts owed,
+// so their statements reconcile as opening − sum = closing (see balancesReconcile in normalize.ts).
+import { AccountType, NormalizedAmount } from "./types";
+import { equalsMoney, isLiabilityAccount, negateAmount, sumAmounts } from "./normalize";
+import { drCrMarker } from "./amount-parser";
+
+export const ACCOUNT_TYPES: AccountType[] = ["deposit", "credit_card", "loan"];
+
+// Content hints; a type needs MIN_SCORE and must beat the deposit hints, so a lone
+// "CREDIT CARD PAYMENT" line on a checking statement doesn't turn it into a card statement
+const HINTS: Array<{ type: AccountType; re: RegExp; weight: number }> = [
+  { type: "credit_card", re: /\bcredit\s+card\b/i, weight: 2 },
+  { type: "credit_card", re: /\bminimum\s+(?:amount\s+)?(?:payment|due)\b/i, weight: 3 },
+  { type: "credit_card", re: /\b(?:credit|spending)\s+limit\b/i, weight: 3 },
+  { type: "credit_card", re: /\bpayment\s+due\s+date\b/i, weight: 2 },
+  { type: "credit_card", re: /\bcard\s+(?:number|no\.?|account)\b/i, weight: 2 },
+  { type: "credit_card", re: /\b(?:visa|mastercard|amex|american\s+express|jcb)\b/i, weight: 1 },
+  { type: "loan", re: /\b(?:loan|mortgage)\s+(?:account|statement|number|balance|amount)\b/i, weight: 3 },
+  { type: "loan", re: /\b(?:outstanding\s+)?principal\b/i, weight: 2 },
+  { type: "loan", re: /\bamorti[sz]ation\b/i, weight: 2 },
+  { type: "loan", re: /\b(?:monthly\s+)?(?:installment|instalment)\b/i, weight: 1 },
+  { type: "deposit", re: /\b(?:savings|checking|current|deposit)\s+account\b/i, weight: 3 },
+  { type: "deposit", re: /\bavailable\s+balance\b/i, weight: 1 },
+];
+const MIN_SCORE = 4;
+
+/** Account type from statement text, or null when nothing points away from a deposit account. */
+export function detectAccountType(text: string): AccountType | null {
+  const score: Record<AccountType, number> = { deposit: 0, credit_card: 0, loan: 0 };
+  for (const h of HINTS) if (h.re.test(text ?? "")) score[h.type] += h.weight;
+  const best = score.credit_card >= score.loan ? "credit_card" : "loan";
+  if (score[best] < MIN_SCORE || score[best] <= score.deposit) return null;
+  return best;
+}
+
+/** "credit card", "cc", "card", "LOAN", "checking" ... → AccountType; null when unrecognized. */
+export function normalizeAccountType(raw?: string): AccountType | null {
+  const s = (raw ?? "").toLowerCase().replace(/[^a-z]+/g, " ").trim();
+  if (!s) return null;
+  if (/^(credit card|creditcard|credit|card|cc)$/.test(s)) return "credit_card";
+  if (/^(loan|mortgage|credit line|creditline)$/.test(s)) return "loan";
+  if (/^(deposit|checking|savings|current|bank)$/.test(s)) return "deposit";
+  return null;
+}
+
+/** "500.00 CR" / "DR 12.00": the marker already says which side of the account the row is on. */
+export function hasDrCrMarker(raw?: string): boolean {
+  return drCrMarker(raw ?? "") !== null;
+}
+
+type SignRow = { amount: NormalizedAmount; marked: boolean };   // marked: CR/DR marker or debit/credit column
+
+/**
+ * Holder-side amounts for a card/loan statement. Issuers usually print charges positive (the
+ * balance owed goes up) while CR/DR-marked rows and debit/credit columns already read from the
+ * holder's side. Printed balances decide when they reconcile one way only; otherwise the
+ * majority sign of unmarked rows does (mostly positive → charges printed positive).
+ */
+export function holderAmounts(
+  type: AccountType,
+  rows: SignRow[],
+  balances?: { opening_balance: NormalizedAmount; closing_balance: NormalizedAmount; currency?: string }
+): NormalizedAmount[] {
+  const asParsed = rows.map(r => r.amount);
+  if (!isLiabilityAccount(type)) return asParsed;
+  const flipped = rows.map(r => (r.marked ? r.amount : negateAmount(r.amount)));
+
+  if (balances) {
+    const cur = balances.currency;
+    const holds = (amounts: string[]) =>
+      equalsMoney(sumAmounts([balances.opening_balance, negateAmount(sumAmounts(amounts, cur))], cur), balances.closing_balance, cur);
+    const a = holds(asParsed);
+    const b = holds(flipped);
+    if (a !== b) return b ? flipped : asParsed;
+  }
+
+  const unmarked = rows.filter(r => !r.marked && Number(r.amount) !== 0);
+  const positive = unmarked.filter(r => !r.amount.startsWith("-")).length;
+  return positive * 2 > unmarked.length ? flipped : asParsed;
+}
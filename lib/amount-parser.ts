@@ -0,0 +1,130 @@
+// lib/amount-parser.ts
+// One amount parser for every ingestion path: "1.234,56", "1'234.56", "1 234,56",
+// "123.45-", "500.00 CR", "(12.00)", "USD 1,000", "1.000,00 EUR", "+50".
+
+export type NumberFormat = {
+  decimal: "." | ",";
+  group: "," | "." | " " | "'" | "";   // "" = unknown / none seen
+};
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = { decimal: ".", group: "," };
+
+export type ParsedAmount = {
+  value: number | null;     // null when nothing numeric was found
+  digits: string | null;    // exact unsigned decimal ("1234.567"), no float rounding
+  negative: boolean;
+  currency: string | null;  // raw code/symbol seen next to the number ("USD", "€", ...)
+};
+
+const SPACES = /[\s\u00a0\u202f]/g;
+const RE_CURRENCY_CODE = /^([A-Z]{3})\b|\b([A-Z]{3})$/;
+const RE_SYMBOL = /[$₱€¥£]/;
+
+// Strong evidence from one value: which separator is the decimal point?
+function decimalVote(num: string): "." | "," | null {
+  const lastDot = num.lastIndexOf(".");
+  const lastComma = num.lastIndexOf(",");
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? "." : ",";
+  const sep = lastDot >= 0 ? "." : lastComma >= 0 ? "," : null;
+  if (!sep) return null;
+  const tail = num.slice(num.lastIndexOf(sep) + 1);
+  const count = num.split(sep).length - 1;
+  if (count > 1) return sep === "." ? "," : ".";        // repeated separator → grouping
+  if (tail.length === 1 || tail.length === 2) return sep; // 12.5 / 12,50
+  return null;                                            // 1,234 / 1.234: ambiguous
+}
+
+function numericCore(raw: string): string {
+  return raw.replace(/[^0-9.,' \u00a0\u202f]/g, "").trim();
+}
+
+/**
+ * Infer one number format for a document from the values it contains
+ * (majority of unambiguous votes; dot-decimal when nothing decides).
+ */
+export function inferNumberFormat(values: Array<string | undefined | null>): NumberFormat {
+  let dot = 0, comma = 0;
+  let group: NumberFormat["group"] = "";
+  for (const v of values) {
+    const core = numericCore(String(v ?? ""));
+    if (!/\d/.test(core)) continue;
+    const vote = decimalVote(core.replace(SPACES, "").replace(/'/g, ""));
+    if (vote === ".") dot++;
+    else if (vote === ",") comma++;
+    if (!group) {
+      if (/\d'\d{3}/.test(core)) group = "'";
+      else if (/\d[ \u00a0\u202f]\d{3}/.test(core)) group = " ";
+    }
+  }
+  const decimal: NumberFormat["decimal"] = comma > dot ? "," : ".";
+  return { decimal, group: group || (decimal === "," ? "." : ",") };
+}
+
+// CR / DR markers: prefix, or suffix spaced or glued ("500.00 DR", "1,234.50DR"); any case, optional dot
+const RE_DRCR = /^(CR|DR)\.?\s+|\s*(CR|DR)\.?$/i;
+
+/** The amount's CR/DR marker and the string without it, or null when it has none. */
+export function drCrMarker(raw: string): { marker: "CR" | "DR"; rest: string } | null {
+  const s = (raw ?? "").toString().trim();
+  const m = RE_DRCR.exec(s);
+  if (!m) return null;
+  return { marker: (m[1] ?? m[2]).toUpperCase() as "CR" | "DR", rest: s.replace(m[0], "").trim() };
+}
+
+/** Parse one amount string. Sign sources: leading/trailing -/+, parentheses, CR/DR marker. */
+export function parseAmount(raw: string, fmt?: NumberFormat): ParsedAmount {
+  let s = (raw ?? "").toString().trim();
+  if (!s) return { value: null, digits: null, negative: false, currency: null };
+
+  let negative = false;
+  let currency: string | null = null;
+
+  const drcr = drCrMarker(s);
+  if (drcr) {
+    negative = drcr.marker === "DR";
+    s = drcr.rest;
+  }
+
+  // currency code / symbol on either side
+  const code = RE_CURRENCY_CODE.exec(s);
+  if (code) { currency = code[1] ?? code[2]; s = s.replace(code[0], "").trim(); }
+  const sym = RE_SYMBOL.exec(s);
+  if (sym) { currency = currency ?? sym[0]; s = s.replace(sym[0], "").trim(); }
+
+  // parentheses, leading/trailing sign
+  if (/^\(.*\)$/.test(s)) { negative = true; s = s.slice(1, -1).trim(); }
+  if (/^-/.test(s) || /-$/.test(s)) { negative = true; s = s.replace(/^-\s*|\s*-$/g, ""); }
+  s = s.replace(/^\+\s*|\s*\+$/g, "");
+
+  let num = s.replace(SPACES, "").replace(/'/g, "");
+  if (!/^[\d.,]*\d[\d.,]*$/.test(num)) {
+    // label text around the figure ("10,000.00 as of Jul 31"): first numeric run
+    const run = /\d[\d.,']*/.exec(s);
+    if (!run) return { value: null, digits: null, negative, currency };
+    num = run[0].replace(/'/g, "").replace(/[.,]$/, "");
+  }
+
+  const decimal = fmt?.decimal ?? decimalVote(num) ?? ".";
+  const group = decimal === "." ? "," : ".";
+  num = num.split(group).join("");
+  if (decimal === ",") num = num.replace(",", ".");
+  if ((num.match(/\./g) ?? []).length > 1) return { value: null, digits: null, negative, currency };
+
+  const n = Number(num);
+  if (!Number.isFinite(n)) return { value: null, digits: null, negative, currency };
+  return { value: n, digits: num.replace(/^0+(?=\d)/, ""), negative, currency };
+}
+
+/** Signed exact decimal string or null (money math goes through lib/money.ts). */
+export function amountText(raw: string, fmt?: NumberFormat): string | null {
+  const p = parseAmount(raw, fmt);
+  if (p.digits === null) return null;
+  return p.negative && /[1-9]/.test(p.digits) ? `-${p.digits}` : p.digits;
+}
+
+/** Signed number or null; convenience over parseAmount. */
+export function amountValue(raw: string, fmt?: NumberFormat): number | null {
+  const p = parseAmount(raw, fmt);
+  if (p.value === null) return null;
+  return p.negative ? -Math.abs(p.value) : p.value;
+}
@@ -0,0 +1,68 @@
+// lib/balance-chain.ts
+import { BalanceChainReport, NormalizedAmount } from "./types";
+import { equalsMoney, isLiabilityAccount, negateAmount, sumAmounts } from "./normalize";
+
+type ChainRow = { amount: NormalizedAmount; running_balance?: NormalizedAmount };
+
+// Walk rows in the given order: previous balance + amount must equal this row's balance
+// (− amount when balances are amounts owed). Rows without a printed balance just carry the expected balance forward.
+function walk(rows: ChainRow[], opening: string | undefined, indexOf: (i: number) => number, owed: boolean): BalanceChainReport {
+  const effect = (a: string) => (owed ? negateAmount(a) : a);
+  let prev = opening;
+  let checked = 0;
+  for (let i = 0; i < rows.length; i++) {
+    const r = rows[i];
+    if (r.running_balance === undefined) {
+      if (prev !== undefined) prev = sumAmounts([prev, effect(r.amount)]);
+      continue;
+    }
+    if (prev === undefined) {
+      // no opening balance: the first printed balance seeds the chain
+      prev = r.running_balance;
+      checked++;
+      continue;
+    }
+    const expected = sumAmounts([prev, effect(r.amount)]);
+    checked++;
+    if (!equalsMoney(expected, r.running_balance)) {
+      return {
+        checked,
+        ok: false,
+        first_break: {
+          index: indexOf(i),
+          previous_balance: prev,
+          amount: r.amount,
+          expected,
+          actual: r.running_balance,
+          difference: sumAmounts([r.running_balance, negateAmount(expected)]),
+        },
+      };
+    }
+    prev = r.running_balance;
+  }
+  return { checked, ok: true, first_break: null };
+}
+
+/**
+ * Validate the running-balance chain row by row and report the first row where it breaks.
+ * Statements printed newest-first are checked in reverse when that chain holds (or runs longer).
+ * `opening` should only be passed when the statement actually printed one.
+ * `accountType` credit_card / loan: printed balances are amounts owed.
+ */
+export function checkBalanceChain(rows: ChainRow[], opening?: string, accountType?: string): BalanceChainReport {
+  const owed = isLiabilityAccount(accountType);
+  const forward = walk(rows, opening, i => i, owed);
+  if (forward.ok || forward.checked === 0) return { ...forward, order: "ascending" };
+
+  const n = rows.length;
+  const backward = walk([...rows].reverse(), opening, i => n - 1 - i, owed);
+  // neither holds: report the direction that chains further before breaking
+  if (backward.ok || backward.checked > forward.checked) return { ...backward, order: "descending" };
+  return { ...forward, order: "ascending" };
+}
+
+/** Footer fragment: { balance_chain } when any row carries a running balance, else {}. */
+export function balanceChainFooter(rows: ChainRow[], opening?: string, accountType?: string): { balance_chain?: BalanceChainReport } {
+  if (!rows.some(r => r.running_balance !== undefined)) return {};
+  return { balance_chain: checkBalanceChain(rows, opening, accountType) };
+}
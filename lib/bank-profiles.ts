@@ -0,0 +1,168 @@
+// lib/bank-profiles.ts
+// Declarative PDF layouts: how to recognise a bank's statement and where its fields live.
+import type { DateOrder } from "./normalize";
+import type { AccountType } from "./types";
+
+export type SignConvention =
+  | "as-printed"     // amounts carry their own sign / parentheses
+  | "from-balance"   // unsigned amounts; sign follows the running-balance movement when printed
+  | "inverted";      // debits printed positive, credits negative
+
+export type BankProfile = {
+  id: string;
+  bank?: string;                    // header.bank; omitted → inferred from the top of the text
+  fingerprint: Array<{ re: RegExp; weight: number }>;
+  header: {
+    account_number: RegExp[];       // group 1 = value
+    statement_date: RegExp[];
+    opening_balance: RegExp[];
+    closing_balance: RegExp[];
+    currency: RegExp[];
+  };
+  rows: RegExp[];                   // 1=date, 2=desc, 3=amount, 4=running balance (optional)
+  date_order?: DateOrder;           // order used when no date cell decides DMY vs MDY
+  sign: SignConvention;
+  currency?: string;                // default when the statement doesn't say
+  account_type?: AccountType;       // card / loan products; omitted → detected from the text
+};
+
+export type ProfileMatch = { id: string; score: number };
+
+// --- shared row grammar pieces ---
+// "1,234.56" / "1.234,56" / "1'234.56", leading -/+ or parentheses, trailing "-" or CR/DR
+const SIGN_SUFFIX = String.raw`(?:-|\s?(?:CR|DR)\b)?`;
+const AMT   = String.raw`[-+(]?\s?[$₱€¥£]?\s?[0-9](?:[0-9,.']*[0-9])?\)?${SIGN_SUFFIX}`;
+const AMT2  = String.raw`[-+(]?\s?[$₱€¥£]?\s?[0-9][0-9,.']*[.,][0-9]{2}\)?${SIGN_SUFFIX}`;   // 2 decimals required
+const D_ISO = String.raw`\d{4}-\d{2}-\d{2}`;
+const D_NUM = String.raw`\d{1,2}[\/-]\d{1,2}[\/-]\d{2,4}`;
+const D_MD  = String.raw`\d{1,2}\/\d{1,2}`;                              // no year (Chase)
+const D_DMON = String.raw`\d{1,2}\s+[A-Za-z]{3}(?:\s+\d{2,4})?`;         // 31 Jul [2025]
+const D_MOND = String.raw`[A-Za-z]{3}\s+\d{1,2}(?:,?\s+\d{4})?`;         // Jul 31[, 2025]
+
+const row = (date: string, withBalance: boolean) =>
+  withBalance
+    ? new RegExp(String.raw`^(${date})\s+(.+?)\s+(${AMT2})\s+(${AMT2})\s*$`)
+    : new RegExp(String.raw`^(${date})\s+(.+?)\s+(${AMT})\s*$`);
+
+const label = (l: string) => new RegExp(String.raw`${l}\s*:?\s*([^\n\r]+)`, "i");
+
+// Fallback: the generic "Label: value" layout the parser has always handled
+export const GENERIC_PROFILE: BankProfile = {
+  id: "generic",
+  fingerprint: [],
+  header: {
+    account_number: [/(?:Account|Card)\s*Number:\s*([^\n\r]+)/i],
+    statement_date: [/Statement\s*Date:\s*([^\n\r]+)/i],
+    opening_balance: [/(?:Opening|Previous)\s*Balance:\s*([^\n\r]+)/i],   // "Previous/New Balance" on card statements
+    closing_balance: [/(?:Closing|New)\s*Balance:\s*([^\n\r]+)/i],
+    currency: [/Currency:\s*([A-Za-z]{3}|[$₱€¥£])/i],
+  },
+  // amount+balance forms first; they need 2-decimal numbers so trailing reference numbers aren't read as amounts.
+  // Year-less dates ("07/31", "31 Jul") only with a balance column; the year comes from the statement date.
+  rows: [
+    row(D_ISO, true), row(D_NUM, true), row(D_MD, true), row(D_DMON, true), row(D_MOND, true),
+    row(D_ISO, false), row(D_NUM, false),
+  ],
+  sign: "from-balance",
+};
+
+export const BANK_PROFILES: BankProfile[] = [
+  {
+    id: "bdo",
+    bank: "BDO",
+    fingerprint: [
+      { re: /BDO\s+Unibank/i, weight: 3 },
+      { re: /\bBDO\b/, weight: 1 },
+      { re: /Balance\s+Forward/i, weight: 1 },
+    ],
+    header: {
+      account_number: [label(String.raw`Account\s*(?:Number|No\.?)`)],
+      statement_date: [label(String.raw`Statement\s*Date`), /Period\s*Covered\s*:?\s*.*?-\s*([^\n\r]+)/i],
+      opening_balance: [label(String.raw`(?:Beginning|Opening)\s*Balance`), label(String.raw`Balance\s*Forward`)],
+      closing_balance: [label(String.raw`(?:Ending|Closing)\s*Balance`)],
+      currency: [/Currency\s*:?\s*([A-Za-z]{3}|[$₱€¥£])/i],
+    },
+    rows: [row(D_NUM, true), row(D_NUM, false)],
+    date_order: "MDY",
+    sign: "from-balance",
+    currency: "PHP",
+  },
+  {
+    id: "bpi",
+    bank: "BPI",
+    fingerprint: [
+      { re: /Bank\s+of\s+the\s+Philippine\s+Islands/i, weight: 3 },
+      { re: /\bBPI\b/, weight: 1 },
+    ],
+    header: {
+      account_number: [label(String.raw`Account\s*(?:Number|No\.?)`)],
+      statement_date: [label(String.raw`(?:Statement|Period\s*Ending)\s*Date`), label(String.raw`Period\s*Ending`)],
+      opening_balance: [label(String.raw`(?:Beginning|Opening)\s*Balance`)],
+      closing_balance: [label(String.raw`(?:Ending|Closing)\s*Balance`)],
+      currency: [/Currency\s*:?\s*([A-Za-z]{3}|[$₱€¥£])/i],
+    },
+    rows: [row(D_MOND, true), row(D_NUM, true), row(D_MOND, false), row(D_NUM, false)],
+    date_order: "MDY",
+    sign: "from-balance",
+    currency: "PHP",
+  },
+  {
+    id: "chase",
+    bank: "Chase",
+    fingerprint: [
+      { re: /JPMorgan\s+Chase/i, weight: 3 },
+      { re: /chase\.com/i, weight: 2 },
+      { re: /\bCHASE\b/i, weight: 1 },
+    ],
+    header: {
+      account_number: [label(String.raw`Account\s*Number`)],
+      statement_date: [/through\s+([A-Za-z]+\s+\d{1,2},\s*\d{4})/i, label(String.raw`Statement\s*Date`)],
+      opening_balance: [label(String.raw`Beginning\s*Balance`)],
+      closing_balance: [label(String.raw`Ending\s*Balance`)],
+      currency: [],
+    },
+    rows: [row(D_MD, true), row(D_MD, false), row(D_NUM, false)],
+    date_order: "MDY",
+    sign: "as-printed",
+    currency: "USD",
+  },
+  {
+    id: "hsbc",
+    bank: "HSBC",
+    fingerprint: [
+      { re: /\bHSBC\b/, weight: 3 },
+      { re: /hsbc\.com/i, weight: 1 },
+    ],
+    header: {
+      account_number: [label(String.raw`Account\s*(?:Number|No\.?)`)],
+      statement_date: [label(String.raw`Statement\s*Date`), /to\s+(\d{1,2}\s+[A-Za-z]+\s+\d{4})/i],
+      opening_balance: [label(String.raw`(?:Opening|Brought\s*Forward)\s*Balance`), label(String.raw`Balance\s*Brought\s*Forward`)],
+      closing_balance: [label(String.raw`Closing\s*Balance`), label(String.raw`Balance\s*Carried\s*Forward`)],
+      currency: [/Currency\s*:?\s*([A-Za-z]{3}|[$₱€¥£])/i],
+    },
+    rows: [row(D_DMON, true), row(D_NUM, true), row(D_DMON, false), row(D_NUM, false)],
+    date_order: "DMY",
+    sign: "from-balance",
+  },
+];
+
+/** Fingerprint score = sum of matched weights over the first ~60 lines. */
+export function scoreProfile(profile: BankProfile, text: string): number {
+  const top = text.split(/\r?\n/).slice(0, 60).join("\n");
+  return profile.fingerprint.reduce((s, f) => s + (f.re.test(top) ? f.weight : 0), 0);
+}
+
+/** Pick the best-scoring profile (explicit id wins); generic rules when nothing scores ≥ 2. */
+export function selectBankProfile(text: string, id?: string): { profile: BankProfile; match: ProfileMatch } {
+  if (id) {
+    const p = [...BANK_PROFILES, GENERIC_PROFILE].find(x => x.id === id.toLowerCase());
+    if (p) return { profile: p, match: { id: p.id, score: scoreProfile(p, text) } };
+  }
+  let best: BankProfile = GENERIC_PROFILE, bestScore = 0;
+  for (const p of BANK_PROFILES) {
+    const s = scoreProfile(p, text);
+    if (s > bestScore) { best = p; bestScore = s; }
+  }
+  if (bestScore < 2) return { profile: GENERIC_PROFILE, match: { id: GENERIC_PROFILE.id, score: 0 } };
+  return { profile: best, match: { id: best.id, score: bestScore } };
+}
@@ -0,0 +1,139 @@
+// lib/batch.ts
+// Month-end batches: many uploaded files and/or ZIP archives, one result per statement file.
+import { Unzip, UnzipInflate } from "fflate";
+import { detectKind, parseStatement, ParseOptions, StatementKind } from "./parse-pipeline";
+import { StatementStore, fileHashOf } from "./statement-store";
+import { DuplicateOptions, checkDuplicates } from "./duplicates";
+
+export type BatchFile = { name: string; type: string; buf: Buffer };
+
+export type BatchResult =
+  | ({ file: string; ok: true } & Record<string, unknown>)   // file + the single-file response body
+  | { file: string; ok: false; kind: StatementKind | "unknown"; error: string; details?: string };
+
+export type BatchSummary = {
+  files: number;
+  parsed: number;
+  balanced: number;
+  lowest_doc_point: { file: string; doc_point: string } | null;
+  failures: Array<{ file: string; error: string; details?: string }>;
+};
+
+const isZip = (f: BatchFile) => /\.zip$/i.test(f.name) || f.buf.slice(0, 4).toString("binary") === "PK\x03\x04";
+
+// Archive members worth parsing: skip folders, macOS resource forks and dotfiles
+const isStatementEntry = (path: string) =>
+  !path.endsWith("/") && !/(^|\/)(__MACOSX|\.)/.test(path);
+
+// Zip-bomb guard, per archive: inflated bytes are counted as they stream (declared sizes can lie)
+export type ArchiveLimits = { maxEntries: number; maxBytes: number };
+export const ARCHIVE_LIMITS: ArchiveLimits = { maxEntries: 1000, maxBytes: 200 * 1024 * 1024 };
+
+// Statement members of one archive, or why it was rejected (a limit crossed, an entry that won't inflate)
+function unzipCapped(buf: Buffer, limits: ArchiveLimits): { members?: Array<{ path: string; data: Buffer }>; error?: string } {
+  const members: Array<{ path: string; chunks: Uint8Array[] }> = [];
+  let entries = 0, bytes = 0;
+  let error: string | null = null;
+  const uz = new Unzip(file => {
+    if (error) return;
+    if (++entries > limits.maxEntries) { error = `ZIP archive has more than ${limits.maxEntries} entries`; return; }
+    if (!isStatementEntry(file.name)) return;   // never started → never inflated
+    const member = { path: file.name, chunks: [] as Uint8Array[] };
+    members.push(member);
+    file.ondata = (err, chunk) => {
+      if (error) return;
+      if (err) { error = `Unreadable ZIP archive: ${file.name}: ${err.message}`; return; }
+      bytes += chunk.length;
+      if (bytes > limits.maxBytes) { error = `ZIP archive expands to more than ${limits.maxBytes} bytes`; file.terminate(); return; }
+      member.chunks.push(chunk);
+    };
+    file.start();
+  });
+  uz.register(UnzipInflate);
+  uz.push(new Uint8Array(buf), true);
+  if (error) return { error };
+  if (!entries) return { error: "Unreadable ZIP archive: no entries found" };
+  return { members: members.map(m => ({ path: m.path, data: Buffer.concat(m.chunks) })) };
+}
+
+/**
+ * Uploaded files with every ZIP replaced by its members ("archive.zip/july.csv"). An archive over
+ * `limits` (entry count, total uncompressed bytes) becomes one error entry instead.
+ */
+export function expandArchives(files: BatchFile[], limits = ARCHIVE_LIMITS): Array<BatchFile | { name: string; error: string }> {
+  const out: Array<BatchFile | { name: string; error: string }> = [];
+  for (const f of files) {
+    if (!isZip(f)) { out.push(f); continue; }
+    try {
+      const { members, error } = unzipCapped(f.buf, limits);
+      if (error) { out.push({ name: f.name, error }); continue; }
+      for (const { path, data } of members ?? []) out.push({ name: `${f.name}/${path}`, type: "", buf: data });
+    } catch (e: any) {
+      out.push({ name: f.name, error: `Unreadable ZIP archive: ${e?.message ?? String(e)}` });
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse every file independently; a failing file becomes a failed result, never a thrown batch.
+ * With `opts.store`, each parsed statement is also saved to the history and gets a `statement_id`.
+ * With `opts.duplicates`, each one is checked against (and recorded in) the duplicate index like a
+ * single upload, in file order, so overlapping files in one batch find each other.
+ */
+export async function parseBatch(
+  files: BatchFile[],
+  opts: ParseOptions & { store?: StatementStore; duplicates?: DuplicateOptions } = {}
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+  for (const f of expandArchives(files)) {
+    if ("error" in f) { results.push({ file: f.name, ok: false, kind: "unknown", error: f.error }); continue; }
+    let kind: StatementKind = "unknown";
+    try {
+      kind = await detectKind(f.name, f.type, f.buf);
+      const parsed = await parseStatement(kind, f.buf, opts);
+      if (!parsed.ok) {
+        results.push({ file: f.name, ok: false, kind, error: parsed.error, ...(parsed.details !== undefined ? { details: parsed.details } : {}) });
+        continue;
+      }
+      const body: Record<string, unknown> = { warnings: [], ...parsed.body };
+      const rec = await opts.store?.save({
+        file_hash: fileHashOf(f.buf),
+        file_name: f.name,
+        kind,
+        ...(typeof body.strategy === "string" ? { strategy: body.strategy } : {}),
+        warnings: (body.warnings as unknown[]).map(String),
+        statement: parsed.normalized,
+      });
+      const { duplicates } = opts.duplicates
+        ? await checkDuplicates(opts.duplicates, parsed.normalized, f.buf)
+        : { duplicates: undefined };
+      results.push({
+        file: f.name,
+        ok: true,
+        ...body,
+        ...(rec ? { statement_id: rec.id } : {}),
+        ...(duplicates ? { duplicates } : {}),
+      });
+    } catch (e: any) {
+      results.push({ file: f.name, ok: false, kind, error: "Failed to parse statement", details: e?.message ?? String(e) });
+    }
+  }
+  return results;
+}
+
+export function summarizeBatch(results: BatchResult[]): BatchSummary {
+  let balanced = 0;
+  let lowest: BatchSummary["lowest_doc_point"] = null;
+  const failures: BatchSummary["failures"] = [];
+  for (const r of results) {
+    if (!r.ok) {
+      failures.push({ file: r.file, error: r.error, ...(r.details !== undefined ? { details: r.details } : {}) });
+      continue;
+    }
+    const footer = r.footer as { balanced?: boolean; doc_point: string };
+    if (footer.balanced) balanced++;
+    if (!lowest || Number(footer.doc_point) < Number(lowest.doc_point)) lowest = { file: r.file, doc_point: footer.doc_point };
+  }
+  return { files: results.length, parsed: results.length - failures.length, balanced, lowest_doc_point: lowest, failures };
+}
@@ -0,0 +1,119 @@
+// lib/camt053-parser.ts
+// ISO 20022 camt.053 (BkToCstmrStmt) XML → InRow[] + header Meta.
+import type { InRow, ParsedRows } from "./rows-to-normalized";
+
+/** True when the buffer is a camt.053 document. */
+export function looksLikeCamt053(buf: Buffer): boolean {
+  const head = buf.slice(0, 4096).toString("utf8");
+  return /camt\.053/i.test(head) || /<(\w+:)?BkToCstmrStmt\b/.test(head);
+}
+
+// --- minimal namespace-tolerant element helpers (camt is well-formed XML) ---
+function elements(src: string, tag: string): string[] {
+  const re = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g");
+  const out: string[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(src))) out.push(m[1]);
+  return out;
+}
+function el(src: string, tag: string): string {
+  return elements(src, tag)[0] ?? "";
+}
+/** Follow a path of child tags, e.g. path(x, "Acct", "Id", "IBAN") */
+function path(src: string, ...tags: string[]): string {
+  return tags.reduce((cur, t) => el(cur, t), src);
+}
+function attr(src: string, tag: string, name: string): string {
+  const m = new RegExp(`<(?:\\w+:)?${tag}\\s[^>]*\\b${name}="([^"]*)"`).exec(src);
+  return m?.[1] ?? "";
+}
+function text(s: string): string {
+  return s.replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&")
+    .trim();
+}
+
+// <X><Dt>…</Dt></X> or <X><DtTm>…</DtTm></X>; nested same-name Dt makes el() unreliable, so strip tags
+const dateOf = (src: string) => text(src).slice(0, 10);
+
+// Amount + CdtDbtInd → signed string. On a reversal (RvslInd=true) CdtDbtInd already
+// gives the direction of the reversing booking, so it is never flipped again
+function signed(src: string): string {
+  const amt = text(el(src, "Amt"));
+  const debit = text(el(src, "CdtDbtInd")) === "DBIT";
+  return (debit ? "-" : "") + amt;
+}
+
+function balanceByCode(stmt: string, codes: string[]): { amount: string; date: string; currency: string } | null {
+  for (const code of codes) {
+    const bal = elements(stmt, "Bal").find(b => text(path(b, "Tp", "CdOrPrtry", "Cd")) === code);
+    if (bal) return { amount: signed(bal), date: dateOf(el(bal, "Dt")), currency: attr(bal, "Amt", "Ccy") };
+  }
+  return null;
+}
+
+function entryDescription(ntry: string): string {
+  const parts: string[] = [];
+  for (const tx of elements(ntry, "TxDtls")) {
+    const debit = text(el(ntry, "CdtDbtInd")) === "DBIT";
+    // counterparty: creditor on outgoing payments, debtor on incoming
+    const party = path(tx, "RltdPties", debit ? "Cdtr" : "Dbtr");
+    const name = text(path(party, "Nm")) || text(path(party, "Pty", "Nm"));
+    if (name) parts.push(name);
+    const rmt = el(tx, "RmtInf");
+    for (const u of elements(rmt, "Ustrd")) parts.push(text(u));
+    for (const s of elements(rmt, "Strd")) {
+      const ref = text(path(s, "CdtrRefInf", "Ref"));
+      const info = elements(s, "AddtlRmtInf").map(text);
+      parts.push(...[ref, ...info].filter(Boolean));
+    }
+  }
+  if (!parts.length) parts.push(text(el(ntry, "AddtlNtryInf")));
+  return parts.filter(Boolean).join(" ").replace(/\s+/g, " ").trim();
+}
+
+export function parseCamt053(buf: Buffer): ParsedRows {
+  const src = buf.toString("utf8");
+  const stmts = elements(src, "Stmt");
+  const first = stmts[0] ?? "";
+  const last = stmts[stmts.length - 1] ?? "";
+
+  const acct = el(first, "Acct");
+  const iban = text(path(acct, "Id", "IBAN")) || text(path(acct, "Id", "Othr", "Id"));
+  const svcr = path(acct, "Svcr", "FinInstnId");
+  const bank = text(el(svcr, "Nm")) || text(el(svcr, "BICFI")) || text(el(svcr, "BIC"));
+  const acctCcy = text(el(acct, "Ccy"));
+
+  const rows: InRow[] = [];
+  for (const stmt of stmts) {
+    for (const ntry of elements(stmt, "Ntry")) {
+      if (/^(PDNG|INFO)$/.test(text(path(ntry, "Sts", "Cd")) || text(el(ntry, "Sts")))) continue; // not booked
+      // reversals stay recognizable in the description; the sign comes from CdtDbtInd alone
+      const reversal = text(el(ntry, "RvslInd")) === "true";
+      rows.push({
+        date: dateOf(el(ntry, "BookgDt")) || dateOf(el(ntry, "ValDt")),
+        description: [reversal ? "REVERSAL" : "", entryDescription(ntry)].filter(Boolean).join(" "),
+        amount: signed(ntry),
+        currency: attr(ntry, "Amt", "Ccy") || acctCcy,
+        fitid: text(el(ntry, "AcctSvcrRef")) || text(el(ntry, "NtryRef")) || undefined,
+        marked: true,   // CdtDbtInd
+      });
+    }
+  }
+
+  const opening = balanceByCode(first, ["OPBD", "PRCD"]);
+  const closing = balanceByCode(last, ["CLBD"]);
+  const toDate = text(path(last, "FrToDt", "ToDtTm")).slice(0, 10);
+
+  return {
+    rows,
+    meta: {
+      bank: bank || undefined,
+      bank_account: iban || undefined,
+      statement_date: closing?.date || toDate || undefined,
+      opening_balance: opening?.amount,
+      closing_balance: closing?.amount,
+      currency: acctCcy || closing?.currency || opening?.currency || undefined,
+    },
+  };
+}
@@ -0,0 +1,114 @@
+// lib/categorize.ts
+import { existsSync, readFileSync } from "fs";
+import { extname, resolve as pathResolve } from "path";
+import { parse as parseYaml } from "yaml";
+import { NormalizedStatement, NormalizedTxn } from "./types";
+import { amountToNumber, cleanBankName, normalizeCurrency } from "./normalize";
+
+type OneOrMany<T> = T | T[];
+
+export type CategoryRule = {
+  id: string;
+  priority?: number;                  // higher runs first; ties keep file order
+  match: Partial<{
+    description_contains: OneOrMany<string>;  // case-insensitive substring (any)
+    description_regex: string;                // JS regex source, case-insensitive
+    min_amount: number | string;              // on |amount|
+    max_amount: number | string;              // on |amount|
+    sign: "inflow" | "outflow";
+    currency: OneOrMany<string>;
+    bank: OneOrMany<string>;
+  }>;
+  account: string;                    // GL offset account
+  tax_code?: string;
+  memo?: string;
+};
+
+export type Categorization = {
+  txn_index: number;
+  rule_id: string | null;             // null → no rule matched
+  account: string | null;
+  tax_code: string | null;
+  memo: string;
+};
+
+const asList = <T>(v: OneOrMany<T> | undefined): T[] => (v === undefined ? [] : Array.isArray(v) ? v : [v]);
+
+// ===== Loading =====
+function candidatePaths(path?: string): string[] {
+  if (path) return [path];
+  if (process.env.BANK2JE_RULES) return [process.env.BANK2JE_RULES];
+  return ["config/rules.json", "config/rules.yaml", "config/rules.yml"];
+}
+
+/** Load rules from BANK2JE_RULES (or config/rules.{json,yaml,yml}); no file → no rules. */
+export function loadRules(path?: string): CategoryRule[] {
+  for (const p of candidatePaths(path)) {
+    const full = pathResolve(process.cwd(), p);
+    if (!existsSync(full)) continue;
+    const text = readFileSync(full, "utf8");
+    const ext = extname(full).toLowerCase();
+    const raw = ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text);
+    return validateRules(Array.isArray(raw) ? raw : raw?.rules ?? []);
+  }
+  return [];
+}
+
+export function validateRules(raw: any[]): CategoryRule[] {
+  return raw.map((r, i) => {
+    const id = String(r?.id ?? `rule-${i + 1}`);
+    if (!r?.account) throw new Error(`Rule ${id}: "account" is required`);
+    if (r?.match?.description_regex) {
+      try { new RegExp(r.match.description_regex, "i"); }
+      catch (e: any) { throw new Error(`Rule ${id}: bad description_regex (${e?.message ?? e})`); }
+    }
+    return { ...r, id, match: r.match ?? {}, account: String(r.account) } as CategoryRule;
+  });
+}
+
+// ===== Matching =====
+function ruleMatches(rule: CategoryRule, txn: NormalizedTxn, bank: string): boolean {
+  const m = rule.match;
+  const desc = txn.description.toLowerCase();
+  const amt = amountToNumber(txn.amount);
+
+  const contains = asList(m.description_contains);
+  if (contains.length && !contains.some(s => desc.includes(String(s).toLowerCase()))) return false;
+  if (m.description_regex && !new RegExp(m.description_regex, "i").test(txn.description)) return false;
+
+  if (m.min_amount !== undefined && Math.abs(amt) < Number(m.min_amount)) return false;
+  if (m.max_amount !== undefined && Math.abs(amt) > Number(m.max_amount)) return false;
+  if (m.sign === "inflow" && !(amt > 0)) return false;
+  if (m.sign === "outflow" && !(amt < 0)) return false;
+
+  const currencies = asList(m.currency).map(c => normalizeCurrency(c));
+  if (currencies.length && !currencies.includes(txn.currency)) return false;
+  const banks = asList(m.bank).map(b => cleanBankName(b).toLowerCase());
+  if (banks.length && !banks.includes(bank.toLowerCase())) return false;
+
+  return true;
+}
+
+/** Sort by priority (desc), keeping file order for ties. */
+function ordered(rules: CategoryRule[]): CategoryRule[] {
+  return rules
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => (b.r.priority ?? 0) - (a.r.priority ?? 0) || a.i - b.i)
+    .map(x => x.r);
+}
+
+/** First matching rule wins; unmatched rows keep account = null so callers can fall back. */
+export function categorizeStatement(stmt: NormalizedStatement, rules: CategoryRule[]): Categorization[] {
+  const sorted = ordered(rules);
+  return stmt.transactions.map((txn, txn_index) => {
+    const rule = sorted.find(r => ruleMatches(r, txn, stmt.header.bank));
+    if (!rule) return { txn_index, rule_id: null, account: null, tax_code: null, memo: txn.description };
+    return {
+      txn_index,
+      rule_id: rule.id,
+      account: rule.account,
+      tax_code: rule.tax_code ?? null,
+      memo: rule.memo ?? txn.description,
+    };
+  });
+}
@@ -0,0 +1,131 @@
+// lib/column-roles.ts
+// Header-driven column roles shared by the CSV and XLSX ingesters.
+import { exactAmount, negateAmount, sumAmounts } from "./normalize";
+import type { NumberFormat } from "./amount-parser";
+
+export type AmountMode =
+  | "signed"         // one amount column, sign already in the value
+  | "debit-credit"   // separate debit (out) / credit (in) columns
+  | "indicator"      // unsigned amount + DR/CR indicator column
+  | "none";
+
+export type ColumnRoles = {
+  date?: string;
+  description?: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  indicator?: string;
+  currency?: string;
+  balance?: string;
+  mode: AmountMode;
+};
+
+const key = (h: string) => h.toString().trim().toLowerCase().replace(/\s+/g, " ");
+
+const RE_INDICATOR = /^(dr ?\/ ?cr|cr ?\/ ?dr|d ?\/ ?c|c ?\/ ?d|drcr|crdr|dc|debit ?\/ ?credit|credit ?\/ ?debit|sign|dr or cr)$/;
+const RE_INDICATOR_WEAK = /^(type|transaction type|txn type|entry type)$/;   // only if values look like DR/CR
+const RE_DEBIT  = /\b(debits?|withdrawals?|dr|money out|paid out|outflows?)\b/;
+const RE_CREDIT = /\b(credits?|deposits?|cr|money in|paid in|inflows?)\b/;
+const RE_BALANCE = /\bbal(ance)?\b/;
+const RE_AMOUNT = /\b(amount|amt|value)\b/;
+const RE_DATE = /date\b/;                    // "Date", "Posting Date", "TransDate"
+const RE_DESC = /\b(description|details|narration|narrative|particulars|merchant|payee)\b/;
+// fallbacks when no real description label exists; a bare "Transaction" header counts,
+// "Transaction Type/ID/Code" never does
+const RE_DESC_WEAK = /\b(memo|remarks|reference|ref)\b|^transactions?$/;
+const RE_CURRENCY = /^(currency|ccy|curr|currency code)$/;
+
+const IND_DEBIT = /^(d|dr|debit|withdrawal|-)$/i;
+const IND_CREDIT = /^(c|cr|credit|deposit|\+)$/i;
+
+function looksLikeIndicator(values: unknown[]): boolean {
+  const vals = values.map(v => String(v ?? "").trim()).filter(Boolean);
+  if (!vals.length) return false;
+  const hits = vals.filter(v => IND_DEBIT.test(v) || IND_CREDIT.test(v)).length;
+  return hits / vals.length >= 0.8;
+}
+
+/**
+ * Classify header cells into roles. `sample` (records keyed by header) is only
+ * used to confirm ambiguous indicator columns such as "Type".
+ */
+export function detectColumnRoles(headers: string[], sample: Record<string, unknown>[] = []): ColumnRoles {
+  const roles: ColumnRoles = { mode: "none" };
+  let weakDesc: string | undefined;
+
+  for (const h of headers) {
+    const k = key(h);
+    if (!k) continue;
+    if (RE_INDICATOR.test(k) || (RE_INDICATOR_WEAK.test(k) && looksLikeIndicator(sample.map(r => r[h])))) {
+      roles.indicator ??= h; continue;
+    }
+    if (RE_BALANCE.test(k)) { roles.balance ??= h; continue; }
+    if (RE_DEBIT.test(k) && !RE_CREDIT.test(k)) { roles.debit ??= h; continue; }
+    if (RE_CREDIT.test(k) && !RE_DEBIT.test(k)) { roles.credit ??= h; continue; }
+    if (RE_CURRENCY.test(k)) { roles.currency ??= h; continue; }
+    if (RE_DATE.test(k)) { roles.date ??= h; continue; }
+    if (RE_AMOUNT.test(k)) { roles.amount ??= h; continue; }
+    if (RE_DESC.test(k)) { roles.description ??= h; continue; }
+    if (RE_DESC_WEAK.test(k)) weakDesc ??= h;
+  }
+  roles.description ??= weakDesc;
+
+  if (roles.debit || roles.credit) roles.mode = roles.debit && roles.credit ? "debit-credit" : roles.amount ? "signed" : "debit-credit";
+  else if (roles.amount && roles.indicator) roles.mode = "indicator";
+  else if (roles.amount) roles.mode = "signed";
+  return roles;
+}
+
+const cell = (r: Record<string, unknown>, h?: string) => (h ? String(r[h] ?? "").trim() : "");
+
+/** Native spreadsheet number → decimal text (float noise beyond 4 places, the widest ISO 4217 precision, dropped). */
+export const numberCellText = (v: number) => String(Number(v.toFixed(4)));
+
+// Native numbers (XLSX) skip locale parsing; text goes through the document's number format.
+// Precision is kept as printed — rowsToNormalized rounds to the statement currency.
+function money(r: Record<string, unknown>, h: string | undefined, fmt?: NumberFormat): string {
+  const v = h ? r[h] : undefined;
+  if (typeof v === "number") return exactAmount(numberCellText(v));
+  return exactAmount(cell(r, h), fmt);
+}
+const abs = (a: string) => a.replace(/^-/, "");
+
+/** Raw text of every amount-bearing cell (for number-format inference). */
+export function amountCells(records: Record<string, unknown>[], roles: ColumnRoles): string[] {
+  const cols = [roles.amount, roles.debit, roles.credit, roles.balance].filter(Boolean) as string[];
+  return records.flatMap(r => cols.map(h => r[h]).filter((v): v is string => typeof v === "string" && v.trim() !== ""));
+}
+
+/** Signed amount for a record: inflow positive, outflow negative. */
+export function signedAmount(r: Record<string, unknown>, roles: ColumnRoles, fmt?: NumberFormat): string {
+  switch (roles.mode) {
+    case "debit-credit": {
+      const debit = abs(money(r, roles.debit, fmt));
+      const credit = abs(money(r, roles.credit, fmt));
+      return sumAmounts([credit, negateAmount(debit)]);
+    }
+    case "indicator": {
+      const amt = abs(money(r, roles.amount, fmt));
+      const ind = cell(r, roles.indicator);
+      return IND_DEBIT.test(ind) ? negateAmount(amt) : amt;
+    }
+    case "signed":
+      return money(r, roles.amount, fmt);
+    default:
+      return "0.00";
+  }
+}
+
+/** Map one header-keyed record onto the loose row shape consumed by rowsToNormalized. */
+export function mapWithRoles(r: Record<string, unknown>, roles: ColumnRoles, fmt?: NumberFormat) {
+  return {
+    date: cell(r, roles.date),
+    description: cell(r, roles.description),
+    amount: signedAmount(r, roles, fmt),
+    currency: cell(r, roles.currency),
+    running_balance: roles.balance && cell(r, roles.balance) ? money(r, roles.balance, fmt) : undefined,
+    // debit/credit columns and DR/CR indicators say which side the amount is on
+    marked: roles.mode === "debit-credit" || roles.mode === "indicator",
+  };
+}
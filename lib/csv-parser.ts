@@ -1,91 +1,47 @@
 import { parse } from "csv-parse/sync";
+import { ColumnRoles, amountCells, detectColumnRoles, mapWithRoles } from "./column-roles";
+import { findHeaderRow, mergeMeta, metaFromPreamble, preambleAmounts } from "./preamble";
+import { NumberFormat, inferNumberFormat } from "./amount-parser";
+import { exactAmount } from "./normalize";
+import { isNormalizedAmount } from "./money";
+import { looksLikeDate, resolveStatementDates } from "./date-resolver";
+import type { Meta } from "./rows-to-normalized";
 
 export type Txn = {
   date: string;
   description: string;
   amount: string;
   currency?: string;
+  running_balance?: string;
+  source?: string;
+  marked?: boolean;
 };
 
-function toIsoDate(s: string): string {
-  const t = (s ?? "").toString().trim();
-  const ymd = /^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})$/;
-  const dmy = /^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})$/;
-  if (ymd.test(t)) {
-    const [, y, m, d] = t.match(ymd)!;
-    return `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
-  }
-  if (dmy.test(t)) {
-    const [, d, m, y] = t.match(dmy)!;
-    const Y = y.length === 2 ? `20${y}` : y;
-    return `${Y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
-  }
-  return t;
-}
-
-function normalizeAmount(raw: string): string {
-  let s = (raw ?? "").toString().trim();
-  const parenNeg = /^\(.*\)$/.test(s);
-  s = s.replace(/[(),]/g, "").replace(/[^\d.\-]/g, "");
-  let num = Number(s || "0");
-  if (Number.isNaN(num)) num = 0;
-  if (parenNeg) num = -Math.abs(num);
-  return num.toFixed(2);
-}
-
 // Detect if the first row looks like a header row
 function isHeaderLikeRow(cols: any[]): boolean {
   if (!Array.isArray(cols)) return false;
-  const lowered = cols.map(c => String(c ?? "").trim().toLowerCase());
-  return (
-    lowered.includes("date") &&
-    (lowered.includes("description") || lowered.join(",").includes("details")) &&
-    (lowered.includes("amount") || lowered.includes("debit") || lowered.includes("credit"))
-  );
+  const roles = detectColumnRoles(cols.map(c => String(c ?? "")));
+  return !!roles.date && !!roles.description && roles.mode !== "none";
 }
 
-function mapHeaderRow(r: Record<string, any>): Txn {
-  const date =
-    r.date ??
-    r.Date ??
-    r.DATE ??
-    r.TransDate ??
-    r["Transaction Date"] ??
-    r["Posting Date"] ??
-    r["Date"] ??
-    "";
-  const desc =
-    r.description ??
-    r.Description ??
-    r.DESCRIPTION ??
-    r.Merchant ??
-    r.MERCHANT ??
-    r["Details"] ??
-    r["Description 1"] ??
-    r["Narration"] ??
-    "";
-  const amt =
-    r.amount ??
-    r.Amount ??
-    r.AMOUNT ??
-    r["Transaction Amount"] ??
-    r["Amount (PHP)"] ??
-    r["Amount (USD)"] ??
-    r["Amount"] ??
-    "";
+function mapHeaderRow(r: Record<string, any>, roles: ColumnRoles, fmt: NumberFormat): Txn {
+  const row = mapWithRoles(r, roles, fmt);
   return {
-    date: toIsoDate(String(date)),
-    description: String(desc ?? "").trim(),
-    amount: normalizeAmount(String(amt)),
+    date: row.date,
+    description: row.description,
+    amount: row.amount,
+    ...(row.currency ? { currency: row.currency } : {}),
+    ...(row.running_balance ? { running_balance: row.running_balance } : {}),
+    ...(row.marked ? { marked: true } : {}),
   };
 }
 
-function mapNoHeaderRow(cols: any[]): Txn {
+function mapNoHeaderRow(cols: any[], fmt: NumberFormat): Txn {
   const [d, desc, amt] = cols;
   return {
-    date: toIsoDate(String(d ?? "")),
+    date: String(d ?? "").trim(),
     description: String(desc ?? "").trim(),
-    amount: normalizeAmount(String(amt ?? "")),
+    amount: exactAmount(String(amt ?? ""), fmt),
   };
 }
 
@@ -93,49 +49,89 @@ function scoreRows(rows: Txn[]): number {
   let score = 0;
   for (const r of rows) {
     if (/^\d{4}-\d{2}-\d{2}$/.test(r.date) || /\d/.test(r.date)) score += 2;
-    if (/^-?\d+\.\d{2}$/.test(r.amount)) score += 1;
+    if (isNormalizedAmount(r.amount)) score += 1;
     if (/[A-Za-z]/.test(r.description)) score += 1;
   }
   return score;
 }
 
-export function parseCsv(buffer: Buffer): Txn[] {
+// Most frequent candidate delimiter over the first lines (a preamble line may have none)
+function detectDelimiter(sample: string): string {
+  const lines = sample.split(/\r?\n/).slice(0, 30);
+  let best = ",", bestCount = 0;
+  for (const d of [",", ";", "\t", "|"]) {
+    const count = lines.reduce((n, l) => n + l.split(d).length - 1, 0);
+    if (count > bestCount) { best = d; bestCount = count; }
+  }
+  return best;
+}
+
+/**
+ * Parse a bank CSV: the table header row is discovered (preamble lines such as
+ * "Account Number,1234-5678" or "Opening Balance,10,000.00" are skipped) and the
+ * preamble / trailing key-value lines are returned as header meta for rowsToNormalized.
+ * Dates stay as printed; rowsToNormalized resolves them with one order for the whole file.
+ */
+export function parseCsvStatement(buffer: Buffer): { rows: Txn[]; meta: Meta } {
   const sample = buffer.slice(0, 4096).toString("utf8");
-  const delimiter = sample.split("\n")[0].includes(";") ? ";" : ",";
+  const delimiter = detectDelimiter(sample);
 
-  // --- Attempt 1: parse with headers ---
-  let headerRows: any[] = [];
+  let grid: string[][] = [];
   try {
-    headerRows = parse(buffer, {
-      columns: true,
+    grid = parse(buffer, {
+      columns: false,
       skip_empty_lines: true,
+      relax_column_count: true,   // preamble lines are shorter than the table
+      relax_quotes: true,
       trim: true,
       delimiter,
+      bom: true,
     });
   } catch {}
-  const mappedHeader = headerRows.map(mapHeaderRow).filter(r => r.description);
 
-  // --- Attempt 2: parse without headers ---
-  let simpleRows: any[] = [];
-  try {
-    simpleRows = parse(buffer, {
-      columns: false,
-      skip_empty_lines: true,
-      trim: true,
-      delimiter,
+  // --- Attempt 1: discovered header row ---
+  const h = findHeaderRow(grid);
+  let mappedHeader: Txn[] = [];
+  let headerMeta: Meta = {};
+  if (h >= 0) {
+    const headers = grid[h].map((c, i) => c || `__col${i}`);
+    const records = grid.slice(h + 1).map(r => Object.fromEntries(headers.map((k, i) => [k, r[i] ?? ""])));
+    // Column roles: single signed amount, debit/credit pair, or amount + DR/CR indicator
+    const roles = detectColumnRoles(headers, records.slice(0, 50));
+    // one number format for the whole file ("1.234,56" vs "1,234.56")
+    const fmt = inferNumberFormat([...amountCells(records, roles), ...preambleAmounts(grid.slice(0, h))]);
+    const trailer: string[][] = [];
+    records.forEach((rec, i) => {
+      const row = mapHeaderRow(rec, roles, fmt);
+      if (looksLikeDate(row.date) && row.description) mappedHeader.push({ ...row, source: grid[h + 1 + i].join(delimiter) });
+      else trailer.push(grid[h + 1 + i]);
     });
-  } catch {}
-  const mappedSimple = simpleRows
-    .filter((cols, idx) => (idx === 0 ? !isHeaderLikeRow(cols) : true))
-    .map(mapNoHeaderRow)
-    .filter(r => r.description);
+    headerMeta = mergeMeta([metaFromPreamble(grid.slice(0, h), fmt), metaFromPreamble(trailer, fmt)]);
+  }
+
+  // --- Attempt 2: no header (date, description, amount) ---
+  const simple = grid.filter((cols, idx) => (idx === 0 ? !isHeaderLikeRow(cols) : true));
+  const simpleFmt = inferNumberFormat(simple.map(cols => cols[2]));
+  const mappedSimple: Txn[] = [];
+  const loose: string[][] = [];
+  for (const cols of simple) {
+    const row = mapNoHeaderRow(cols, simpleFmt);
+    if (looksLikeDate(row.date) && row.description) mappedSimple.push({ ...row, source: cols.join(delimiter) });
+    else loose.push(cols);
+  }
 
   // --- Score both, pick best ---
   const scoreHeader = scoreRows(mappedHeader);
   const scoreSimple = scoreRows(mappedSimple);
 
   if (scoreSimple > scoreHeader || (scoreSimple === scoreHeader && mappedSimple.length > mappedHeader.length)) {
-    return mappedSimple;
+    return { rows: mappedSimple, meta: metaFromPreamble(loose, simpleFmt) };
   }
-  return mappedHeader;
+  return { rows: mappedHeader, meta: headerMeta };
+}
+
+export function parseCsv(buffer: Buffer): Txn[] {
+  const { rows, meta } = parseCsvStatement(buffer);
+  const { dates } = resolveStatementDates(rows.map(r => r.date), { statementDate: meta.statement_date });
+  return rows.map(({ source: _source, ...r }, i) => ({ ...r, date: dates[i] }));
 }
@@ -0,0 +1,119 @@
+// lib/date-resolver.ts
+// Statement-level date resolution: one DMY/MDY reading for every date cell of a
+// document, and years for short dates ("Jul 31", "31/07") taken from the statement period.
+import type { DateResolution, ISODate } from "./types";
+import { DateOrder, toISODate } from "./normalize";
+
+type DateParts = {
+  year?: number;     // absent on short dates
+  a: number;         // first numeric token (day or month) / day for named months
+  b: number;         // second numeric token / month for named months
+  named: boolean;    // month spelled out → no DMY/MDY question
+  ymd: boolean;      // year-first numeric form
+};
+
+const MONTHS: Record<string, number> = { jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12 };
+const monthOf = (name: string) => MONTHS[name.toLowerCase().slice(0, 3)];
+const year4 = (y: string) => (y.length === 2 ? 2000 + Number(y) : Number(y));
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+const RE_YMD = /^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})$/;                       // 2025-07-31
+const RE_NUM = /^(\d{1,2})[\/\-.](\d{1,2})(?:[\/\-.](\d{2}|\d{4}))?$/;             // 31/07/2025, 07/31, 31.07.25
+const RE_DMON = /^(\d{1,2})[\s\-]+([A-Za-z]{3,9})\.?(?:[\s\-,]+(\d{2}|\d{4}))?$/;  // 31 Jul [2025], 31-Jul-25
+const RE_MOND = /^([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:,?\s+(\d{4}))?$/;               // Jul 31[, 2025]
+
+function partsOf(raw: string): DateParts | null {
+  const t = (raw ?? "").toString().trim();
+  let m: RegExpExecArray | null;
+  if ((m = RE_YMD.exec(t))) return { year: Number(m[1]), a: Number(m[3]), b: Number(m[2]), named: false, ymd: true };
+  if ((m = RE_NUM.exec(t))) return { year: m[3] ? year4(m[3]) : undefined, a: Number(m[1]), b: Number(m[2]), named: false, ymd: false };
+  if ((m = RE_DMON.exec(t)) && monthOf(m[2])) return { year: m[3] ? year4(m[3]) : undefined, a: Number(m[1]), b: monthOf(m[2]), named: true, ymd: false };
+  if ((m = RE_MOND.exec(t)) && monthOf(m[1])) return { year: m[3] ? year4(m[3]) : undefined, a: Number(m[2]), b: monthOf(m[1]), named: true, ymd: false };
+  return null;
+}
+
+const validDay = (d: number) => d >= 1 && d <= 31;
+const validMonth = (m: number) => m >= 1 && m <= 12;
+
+/** True when the cell parses as a date in some supported layout (with or without a year). */
+export function looksLikeDate(raw: string): boolean {
+  const p = partsOf(raw);
+  if (!p) return false;
+  if (p.named || p.ymd) return validDay(p.a) && validMonth(p.b);
+  return (validDay(p.a) && validMonth(p.b)) || (validMonth(p.a) && validDay(p.b));
+}
+
+// Numeric d/m cell readable both ways ("03/04/2025")
+const isAmbiguous = (p: DateParts) => !p.named && !p.ymd && p.a !== p.b && p.a <= 12 && p.b <= 12;
+
+/**
+ * One order for the document: a cell whose first token is > 12 proves DMY, second > 12 proves MDY
+ * (majority when both occur). `hint` (e.g. bank profile) applies when no cell decides.
+ */
+export function inferDateOrder(values: Array<string | undefined>, hint?: DateOrder): { order: "DMY" | "MDY"; source: DateResolution["source"] } {
+  let dmy = 0, mdy = 0;
+  for (const v of values) {
+    const p = partsOf(v ?? "");
+    if (!p || p.named || p.ymd) continue;
+    if (p.a > 12 && p.b <= 12) dmy++;
+    else if (p.b > 12 && p.a <= 12) mdy++;
+  }
+  if (dmy || mdy) return { order: dmy >= mdy ? "DMY" : "MDY", source: "evidence" };
+  if (hint === "DMY" || hint === "MDY") return { order: hint, source: "hint" };
+  return { order: "MDY", source: "default" };   // same per-cell default toISODate has always used
+}
+
+// [day, month] under the document order; a cell that can't be read that way has only one valid reading
+function dayMonth(p: DateParts, order: "DMY" | "MDY"): [number, number] | null {
+  let [day, month] = p.named || p.ymd || order === "DMY" ? [p.a, p.b] : [p.b, p.a];
+  if (!validMonth(month) && validMonth(day) && !p.named && !p.ymd) [day, month] = [month, day];
+  return validDay(day) && validMonth(month) ? [day, month] : null;
+}
+
+function toIso(p: DateParts, order: "DMY" | "MDY", year: number | undefined): ISODate {
+  const dm = dayMonth(p, order);
+  if (year === undefined || !dm) return "unknown";
+  return `${year}-${pad2(dm[1])}-${pad2(dm[0])}`;
+}
+
+// Short date → year of the reference (statement) date, one year back when the
+// month lies after the reference month (December rows on a January statement)
+function yearFor(month: number, ref: ISODate): number | undefined {
+  const m = /^(\d{4})-(\d{2})-\d{2}$/.exec(ref);
+  if (!m) return undefined;
+  return month > Number(m[2]) ? Number(m[1]) - 1 : Number(m[1]);
+}
+
+/**
+ * Resolve every transaction date of a statement with one DMY/MDY reading.
+ * `statementDate` (raw or ISO) is read with the same order and anchors missing years;
+ * without it the latest fully dated row does. Ambiguous rows (readable both ways) are
+ * reported by index so a reviewer can check them.
+ */
+export function resolveStatementDates(
+  values: Array<string | undefined>,
+  opts: { statementDate?: string; order?: DateOrder } = {}
+): { dates: ISODate[]; statement_date: ISODate; report: DateResolution } {
+  const { order, source } = inferDateOrder([...values, opts.statementDate], opts.order);
+  const parts = values.map(v => partsOf(v ?? ""));
+
+  const stmt = partsOf(opts.statementDate ?? "");
+  const statement_date = stmt?.year !== undefined ? toIso(stmt, order, stmt.year) : toISODate(opts.statementDate ?? "", order);
+  const fullDates = parts.map(p => (p?.year !== undefined ? toIso(p, order, p.year) : "unknown")).filter(d => d !== "unknown");
+  const ref = statement_date !== "unknown" ? statement_date : (fullDates.sort().slice(-1)[0] ?? "unknown");
+
+  let years_inferred = 0;
+  const ambiguous_rows: number[] = [];
+  const dates = parts.map((p, i) => {
+    if (!p) return toISODate(values[i] ?? "", order);   // other layouts: per-cell parse
+    if (isAmbiguous(p) && source !== "evidence") ambiguous_rows.push(i);
+    if (p.year !== undefined) return toIso(p, order, p.year);
+    const dm = dayMonth(p, order);
+    const iso = dm ? toIso(p, order, yearFor(dm[1], ref)) : "unknown";
+    if (iso !== "unknown") years_inferred++;
+    return iso;
+  });
+
+  return { dates, statement_date, report: { order, source, ambiguous_rows, years_inferred } };
+}
@@ -0,0 +1,243 @@
+// lib/duplicates.ts
+// Transaction fingerprints + an on-disk index of previously ingested statements,
+// so overlapping uploads (an August statement, then a Jul 15 – Aug 15 CSV) aren't booked twice.
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { open, rename, stat, unlink, writeFile } from "fs/promises";
+import { dirname, resolve as pathResolve } from "path";
+import { NormalizedStatement, NormalizedTxn } from "./types";
+import { equalsMoney } from "./normalize";
+import { fileHashOf, statementIdFromHash } from "./statement-store";
+
+export type IndexedTxn = {
+  fingerprint: string;
+  date: string;
+  amount: string;
+  description: string;   // normalized (see normalizeDescription)
+  fitid?: string;
+  statement_id: string;
+};
+
+export type TxnIndex = {
+  version: 1;
+  accounts: Record<string, IndexedTxn[]>;   // keyed by header.bank_account
+};
+
+export type DuplicateMatch = {
+  txn_index: number;
+  match: "fitid" | "exact" | "fuzzy";      // bank id / same fingerprint / same amount + description within ±N days
+  statement_id: string;                    // statement the earlier copy came from
+  date: string;                            // posting date of the earlier copy
+  days_apart: number;
+};
+
+export type DuplicateMode = "flag" | "drop" | "off";
+export type DuplicateOptions = { mode: DuplicateMode; dayTolerance?: number };
+
+export const DEFAULT_DAY_TOLERANCE = 3;
+const DUPLICATE_MODES: DuplicateMode[] = ["flag", "drop", "off"];
+const DEFAULT_INDEX_PATH = "data/txn-index.json";
+const LOCK_WAIT_MS = 25;
+const LOCK_TIMEOUT_MS = 10000;
+const STALE_LOCK_MS = 30000;     // a lock this old was left behind by a crashed process
+
+/** `?duplicates=flag|drop|off&duplicate_days=N`; `error` explains a bad value. */
+export function duplicateOptionsFromQuery(params: URLSearchParams): { options?: DuplicateOptions; error?: string } {
+  const mode = (params.get("duplicates") ?? "flag") as DuplicateMode;
+  if (!DUPLICATE_MODES.includes(mode)) return { error: `duplicates must be one of: ${DUPLICATE_MODES.join(", ")}` };
+  const days = params.get("duplicate_days");
+  if (days === null) return { options: { mode } };
+  if (!/^\d+$/.test(days.trim())) return { error: `duplicate_days must be a non-negative whole number of days, got "${days}"` };
+  return { options: { mode, dayTolerance: Number(days) } };
+}
+
+/** Lowercased alphanumerics only: "POS 1234 STARBUCKS #55" and "Pos 1234 Starbucks 55" agree. */
+export function normalizeDescription(d: string): string {
+  return (d ?? "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/** Stable hash of account, date, amount, normalized description and bank reference. */
+export function fingerprintTxn(txn: NormalizedTxn, bank_account: string): string {
+  const key = [bank_account, txn.date, txn.amount, normalizeDescription(txn.description), txn.fitid ?? ""].join("|");
+  return createHash("sha1").update(key).digest("hex");
+}
+
+const dayNumber = (iso: string) => {
+  const t = Date.parse(`${iso}T00:00:00Z`);
+  return Number.isNaN(t) ? null : Math.round(t / 86400000);
+};
+
+/** Load the index from BANK2JE_TXN_INDEX (or data/txn-index.json); empty when missing. */
+export function loadTxnIndex(path = process.env.BANK2JE_TXN_INDEX ?? DEFAULT_INDEX_PATH): TxnIndex {
+  const full = pathResolve(process.cwd(), path);
+  if (!existsSync(full)) return { version: 1, accounts: {} };
+  const raw = JSON.parse(readFileSync(full, "utf8"));
+  return { version: 1, accounts: raw?.accounts ?? {} };
+}
+
+export function saveTxnIndex(index: TxnIndex, path = process.env.BANK2JE_TXN_INDEX ?? DEFAULT_INDEX_PATH) {
+  const full = pathResolve(process.cwd(), path);
+  mkdirSync(dirname(full), { recursive: true });
+  writeFileSync(full, JSON.stringify(index, null, 2));
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// `<index>.lock` created exclusively; works across requests and across server processes
+async function acquireLock(lock: string): Promise<void> {
+  const started = Date.now();
+  while (true) {
+    try {
+      await (await open(lock, "wx")).close();
+      return;
+    } catch (e: any) {
+      if (e?.code !== "EEXIST") throw e;
+      const age = await stat(lock).then(s => Date.now() - s.mtimeMs, () => 0);
+      if (age > STALE_LOCK_MS) { await unlink(lock).catch(() => {}); continue; }
+      if (Date.now() - started > LOCK_TIMEOUT_MS) throw new Error(`Transaction index is locked (${lock})`);
+      await sleep(LOCK_WAIT_MS);
+    }
+  }
+}
+
+/**
+ * Read-modify-write of the index under a lock file, so concurrent uploads don't lose each
+ * other's rows. `fn` returns the next index (the same object → nothing is written) and a result.
+ */
+export async function updateTxnIndex<T>(
+  fn: (index: TxnIndex) => { index: TxnIndex; result: T },
+  path = process.env.BANK2JE_TXN_INDEX ?? DEFAULT_INDEX_PATH
+): Promise<T> {
+  const full = pathResolve(process.cwd(), path);
+  mkdirSync(dirname(full), { recursive: true });
+  const lock = `${full}.lock`;
+  await acquireLock(lock);
+  try {
+    const current = loadTxnIndex(full);
+    const { index, result } = fn(current);
+    if (index !== current) {
+      // write-then-rename: a reader never sees a half-written file
+      const tmp = `${full}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(index, null, 2));
+      await rename(tmp, full);
+    }
+    return result;
+  } finally {
+    await unlink(lock).catch(() => {});
+  }
+}
+
+/**
+ * Match each transaction against earlier statements of the same bank_account.
+ * Rows recorded from `statementId` itself (the same file posted again for an export) never match.
+ * Each indexed copy is consumed once, so two identical purchases on one day only
+ * count as duplicates when the index also holds two.
+ */
+export function findDuplicates(
+  stmt: NormalizedStatement,
+  index: TxnIndex,
+  opts: { dayTolerance?: number; statementId?: string } = {}
+): DuplicateMatch[] {
+  const account = stmt.header.bank_account;
+  if (!account || account === "unknown") return [];
+  const tolerance = opts.dayTolerance ?? DEFAULT_DAY_TOLERANCE;
+  const pool = (index.accounts[account] ?? []).filter(e => e.statement_id !== opts.statementId);
+  const used = new Set<number>();
+
+  const take = (pred: (e: IndexedTxn) => boolean) => {
+    const i = pool.findIndex((e, k) => !used.has(k) && pred(e));
+    if (i >= 0) used.add(i);
+    return i >= 0 ? pool[i] : null;
+  };
+
+  // strict matches first so a fuzzy guess can't take an earlier copy another row matches exactly
+  const hits = new Map<number, { hit: IndexedTxn; match: DuplicateMatch["match"] }>();
+  stmt.transactions.forEach((txn, i) => {
+    const fp = fingerprintTxn(txn, account);
+    const byFitid = txn.fitid ? take(e => e.fitid === txn.fitid) : null;
+    const hit = byFitid ?? take(e => e.fingerprint === fp);
+    if (hit) hits.set(i, { hit, match: byFitid ? "fitid" : "exact" });
+  });
+  stmt.transactions.forEach((txn, i) => {
+    const day = dayNumber(txn.date);
+    if (hits.has(i) || day === null) return;
+    const desc = normalizeDescription(txn.description);
+    const hit = take(e => {
+      const d = dayNumber(e.date);
+      if (d === null || Math.abs(d - day) > tolerance || !equalsMoney(e.amount, txn.amount)) return false;
+      if (e.fitid && txn.fitid) return false;   // both carry bank ids and they differ
+      // CSV exports often shorten the printed description
+      return e.description === desc || (!!desc && !!e.description && (e.description.includes(desc) || desc.includes(e.description)));
+    });
+    if (hit) hits.set(i, { hit, match: "fuzzy" });
+  });
+
+  const out: DuplicateMatch[] = [];
+  stmt.transactions.forEach((txn, i) => {
+    const h = hits.get(i);
+    if (!h) return;
+    const day = dayNumber(txn.date), other = dayNumber(h.hit.date);
+    out.push({
+      txn_index: i,
+      match: h.match,
+      statement_id: h.hit.statement_id,
+      date: h.hit.date,
+      days_apart: day !== null && other !== null ? Math.abs(day - other) : 0,
+    });
+  });
+  return out;
+}
+
+/**
+ * Add a statement's transactions (minus the ones already flagged as duplicates) to the index.
+ * A statement the index already holds is left as recorded (same index object returned).
+ */
+export function recordStatement(
+  stmt: NormalizedStatement,
+  index: TxnIndex,
+  statementId: string,
+  duplicates: DuplicateMatch[] = []
+): TxnIndex {
+  const account = stmt.header.bank_account;
+  if (!account || account === "unknown") return index;
+  if ((index.accounts[account] ?? []).some(e => e.statement_id === statementId)) return index;
+  const skip = new Set(duplicates.map(d => d.txn_index));
+  const kept = [...(index.accounts[account] ?? [])];
+  stmt.transactions.forEach((txn, i) => {
+    if (skip.has(i)) return;
+    kept.push({
+      fingerprint: fingerprintTxn(txn, account),
+      date: txn.date,
+      amount: txn.amount,
+      description: normalizeDescription(txn.description),
+      ...(txn.fitid ? { fitid: txn.fitid } : {}),
+      statement_id: statementId,
+    });
+  });
+  return { ...index, accounts: { ...index.accounts, [account]: kept } };
+}
+
+/** Statement id for the index: the statement store's id, so `duplicates[].statement_id` opens with GET /api/statements/:id. */
+export function statementIdOf(buf: Buffer): string {
+  return statementIdFromHash(fileHashOf(buf));
+}
+
+/**
+ * Check one parsed file against the index and record it, under the index lock. "off" skips both;
+ * the file's own earlier rows never match, and a file the index already holds is not recorded twice.
+ * `drop` holds the rows "drop" mode leaves out of journal entries and exports.
+ */
+export async function checkDuplicates(
+  dup: DuplicateOptions,
+  normalized: NormalizedStatement,
+  buf: Buffer
+): Promise<{ duplicates: DuplicateMatch[]; drop: Set<number> }> {
+  if (dup.mode === "off") return { duplicates: [], drop: new Set<number>() };
+
+  const statementId = statementIdOf(buf);
+  const duplicates = await updateTxnIndex(index => {
+    const found = findDuplicates(normalized, index, { dayTolerance: dup.dayTolerance, statementId });
+    return { index: recordStatement(normalized, index, statementId, found), result: found };
+  });
+  return { duplicates, drop: new Set(dup.mode === "drop" ? duplicates.map(d => d.txn_index) : []) };
+}
@@ -0,0 +1,82 @@
+// lib/exporters.ts
+import { JournalEntry, NormalizedStatement } from "./types";
+import { negateAmount, normalizeAmount } from "./normalize";
+
+// All amounts go back through normalizeAmount so every exporter emits the same
+// signed NormalizedAmount string (currency minor units) the rest of the pipeline uses.
+function amt(a: string, currency: string): string { return normalizeAmount(a, undefined, currency); }
+function neg(a: string, currency: string): string { return negateAmount(amt(a, currency)); }
+
+function isoParts(d: string): [string, string, string] | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(d);
+  return m ? [m[1], m[2], m[3]] : null;
+}
+const toMDY = (d: string) => { const p = isoParts(d); return p ? `${p[1]}/${p[2]}/${p[0]}` : d; };
+const toDMY = (d: string) => { const p = isoParts(d); return p ? `${p[2]}/${p[1]}/${p[0]}` : d; };
+
+function csvCell(v: string): string {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+function csvLine(cells: string[]): string { return cells.map(csvCell).join(","); }
+
+// IIF is tab-delimited and has no quoting: strip tabs/newlines from text fields
+function iifCell(v: string): string { return v.replace(/[\t\r\n]+/g, " ").trim(); }
+
+// ===== QuickBooks Desktop IIF (general journal; debit = +, credit = −) =====
+export function toQuickBooksIif(_stmt: NormalizedStatement, entries: JournalEntry[]): string {
+  const out: string[] = [
+    "!TRNS\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tMEMO",
+    "!SPL\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tMEMO",
+    "!ENDTRNS",
+  ];
+  for (const e of entries) {
+    e.lines.forEach((l, i) => {
+      const signed = Number(l.debit) !== 0 ? amt(l.debit, e.currency) : neg(l.credit, e.currency);
+      const tag = i === 0 ? "TRNS" : "SPL";
+      out.push([tag, "GENERAL JOURNAL", toMDY(e.date), iifCell(l.account), signed, iifCell(l.memo)].join("\t"));
+    });
+    out.push("ENDTRNS");
+  }
+  return out.join("\r\n") + "\r\n";
+}
+
+// ===== Xero bank-statement import (one row per transaction) =====
+export function toXeroCsv(stmt: NormalizedStatement): string {
+  const out = [csvLine(["*Date", "*Amount", "Payee", "Description", "Reference"])];
+  for (const t of stmt.transactions) {
+    out.push(csvLine([toDMY(t.date), amt(t.amount, t.currency), "", t.description, ""]));
+  }
+  return out.join("\r\n") + "\r\n";
+}
+
+// ===== Generic GL CSV (one row per journal line) =====
+export function toGlCsv(_stmt: NormalizedStatement, entries: JournalEntry[]): string {
+  const out = [csvLine(["date", "account", "debit", "credit", "memo"])];
+  for (const e of entries) {
+    for (const l of e.lines) out.push(csvLine([e.date, l.account, amt(l.debit, e.currency), amt(l.credit, e.currency), l.memo]));
+  }
+  return out.join("\r\n") + "\r\n";
+}
+
+export type ExportFormat = "iif" | "xero" | "gl";
+
+export const EXPORT_FORMATS: Record<ExportFormat, {
+  ext: string;
+  mime: string;
+  render: (stmt: NormalizedStatement, entries: JournalEntry[]) => string;
+}> = {
+  iif:  { ext: "iif", mime: "application/x-iif", render: toQuickBooksIif },
+  xero: { ext: "csv", mime: "text/csv",          render: (stmt) => toXeroCsv(stmt) },
+  gl:   { ext: "csv", mime: "text/csv",          render: toGlCsv },
+};
+
+export function isExportFormat(f: string): f is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, f);
+}
+
+export function exportFileName(stmt: NormalizedStatement, format: ExportFormat): string {
+  const h = stmt.header;
+  const parts = [h.bank, h.bank_account, h.statement_date].filter(p => p && p !== "unknown");
+  const base = parts.length ? parts.join("-") : "statement";
+  return `${base}-${format}.${EXPORT_FORMATS[format].ext}`;
+}
@@ -0,0 +1,161 @@
+// lib/fx-rates.ts
+// Functional-currency conversion from a local rates table: CSV or JSON rows of (date, pair, rate),
+// read as "1 BASE = rate QUOTE" ("2025-07-31,USD/PHP,56.12"). Inverse pairs are derived.
+// Only transactions gain functional amounts; balances and the balance check stay in the account currency.
+import { existsSync, readFileSync } from "fs";
+import { extname, resolve as pathResolve } from "path";
+import { parse } from "csv-parse/sync";
+import { FxPolicy, FxReport, ISODate, NormalizedStatement, NormalizedTxn } from "./types";
+import { normalizeCurrency, sumAmounts, toISODate } from "./normalize";
+import { divMoney, formatMoney, minorUnits, mulMoney, parseMoney, rescale } from "./money";
+
+export type FxRate = { date: ISODate; base: string; quote: string; rate: string };
+export type FxOptions = { functionalCurrency: string; policy?: FxPolicy; rates?: FxRate[] };
+
+export const FX_POLICIES: FxPolicy[] = ["same_day", "previous_business_day", "month_end"];
+const MAX_LOOKBACK_DAYS = 10;   // previous_business_day never reaches for a stale rate
+const INVERSE_SCALE = 10;       // decimals kept on derived (1 / rate) rates
+
+// ===== Loading =====
+// "USD/PHP", "USD-PHP", "USDPHP" → ["USD", "PHP"]
+function splitPair(pair: string): [string, string] | null {
+  const m = /^([A-Za-z]{3})\s*[\/\-_: ]?\s*([A-Za-z]{3})$/.exec((pair ?? "").trim());
+  return m ? [m[1].toUpperCase(), m[2].toUpperCase()] : null;
+}
+
+function toRate(r: Record<string, unknown>, where: string): FxRate {
+  const get = (k: string) => String(Object.entries(r).find(([key]) => key.trim().toLowerCase() === k)?.[1] ?? "").trim();
+  const pair = splitPair(get("pair"));
+  const date = toISODate(get("date"));
+  const rate = get("rate").replace(/,/g, "");
+  if (!pair) throw new Error(`FX rate ${where}: bad pair "${get("pair")}" (expected e.g. USD/PHP)`);
+  if (date === "unknown") throw new Error(`FX rate ${where}: bad date "${get("date")}"`);
+  if (!/^\d+(\.\d+)?$/.test(rate) || Number(rate) === 0) throw new Error(`FX rate ${where}: bad rate "${get("rate")}"`);
+  return { date, base: pair[0], quote: pair[1], rate };
+}
+
+export type FxRatesFile = { rates: FxRate[]; errors: string[] };
+
+/**
+ * Rates from CSV (`date,pair,rate` header) or JSON (array or `{ rates: [...] }`). A bad line is
+ * skipped and reported in `errors`, so one typo doesn't stop every conversion.
+ */
+export function parseFxRates(text: string, format: "csv" | "json"): FxRatesFile {
+  let list: Array<{ row: Record<string, unknown>; where: string }>;
+  try {
+    if (format === "json") {
+      const raw = JSON.parse(text);
+      const rows: unknown[] = Array.isArray(raw) ? raw : raw?.rates ?? [];
+      list = rows.map((r, i) => ({ row: r as Record<string, unknown>, where: `#${i + 1}` }));
+    } else {
+      const records: Record<string, string>[] = parse(text, { columns: true, skip_empty_lines: true, trim: true, bom: true });
+      list = records.map((r, i) => ({ row: r, where: `line ${i + 2}` }));
+    }
+  } catch (e: any) {
+    return { rates: [], errors: [`FX rates file unreadable: ${e?.message ?? String(e)}`] };
+  }
+
+  const rates: FxRate[] = [];
+  const errors: string[] = [];
+  for (const { row, where } of list) {
+    try { rates.push(toRate(row ?? {}, where)); }
+    catch (e: any) { errors.push(e?.message ?? String(e)); }
+  }
+  return { rates, errors };
+}
+
+function candidatePaths(path?: string): string[] {
+  if (path) return [path];
+  if (process.env.BANK2JE_FX_RATES) return [process.env.BANK2JE_FX_RATES];
+  return ["config/fx-rates.csv", "config/fx-rates.json"];
+}
+
+/** Load rates from BANK2JE_FX_RATES (or config/fx-rates.{csv,json}); no file → no rates. */
+export function loadFxRates(path?: string): FxRatesFile {
+  for (const p of candidatePaths(path)) {
+    const full = pathResolve(process.cwd(), p);
+    if (!existsSync(full)) continue;
+    return parseFxRates(readFileSync(full, "utf8"), extname(full).toLowerCase() === ".json" ? "json" : "csv");
+  }
+  return { rates: [], errors: [] };
+}
+
+/**
+ * `?functional_currency=PHP&fx_policy=month_end` (defaults: BANK2JE_FUNCTIONAL_CURRENCY, BANK2JE_FX_POLICY).
+ * No functional currency → no conversion; `error` explains a bad value.
+ */
+export function fxOptionsFromQuery(params: URLSearchParams): { fx?: FxOptions; error?: string } {
+  const cur = params.get("functional_currency") ?? process.env.BANK2JE_FUNCTIONAL_CURRENCY;
+  if (!cur) return {};
+  const functionalCurrency = normalizeCurrency(cur);
+  if (functionalCurrency === "unknown") return { error: `functional_currency must be an ISO code, got "${cur}"` };
+  const policy = (params.get("fx_policy") ?? process.env.BANK2JE_FX_POLICY ?? "same_day") as FxPolicy;
+  if (!FX_POLICIES.includes(policy)) return { error: `fx_policy must be one of: ${FX_POLICIES.join(", ")}` };
+  return { fx: { functionalCurrency, policy } };
+}
+
+// ===== Lookup =====
+const isWeekday = (iso: string) => { const d = new Date(`${iso}T00:00:00Z`).getUTCDay(); return d !== 0 && d !== 6; };
+const daysBetween = (a: string, b: string) => Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / 86400000);
+
+// Rates of one direction, oldest first; `pick` applies the policy
+function pick(rows: FxRate[], date: ISODate, policy: FxPolicy): FxRate | null {
+  if (policy === "same_day") return rows.find(r => r.date === date) ?? null;
+  if (policy === "month_end") {
+    // last rate published in the transaction's month (month-end falls on a weekend → the Friday before)
+    const inMonth = rows.filter(r => r.date.slice(0, 7) === date.slice(0, 7));
+    return inMonth[inMonth.length - 1] ?? null;
+  }
+  // previous_business_day: the latest weekday rate strictly before the transaction date
+  const before = rows.filter(r => r.date < date && isWeekday(r.date) && daysBetween(r.date, date) <= MAX_LOOKBACK_DAYS);
+  return before[before.length - 1] ?? null;
+}
+
+/** Rate converting 1 `from` into `to` on `date`; inverse pairs are derived. */
+export function lookupRate(rates: FxRate[], from: string, to: string, date: ISODate, policy: FxPolicy): { rate: string; date: ISODate } | null {
+  if (from === to) return { rate: "1", date };
+  const sorted = (base: string, quote: string) =>
+    rates.filter(r => r.base === base && r.quote === quote).sort((a, b) => a.date.localeCompare(b.date));
+
+  const direct = pick(sorted(from, to), date, policy);
+  if (direct) return { rate: direct.rate, date: direct.date };
+  const inverse = pick(sorted(to, from), date, policy);
+  if (!inverse) return null;
+  const one = parseMoney("1", 0);
+  return { rate: formatMoney(divMoney(one, parseMoney(inverse.rate), INVERSE_SCALE)), date: inverse.date };
+}
+
+// ===== Conversion =====
+/**
+ * Adds functional_amount / fx_rate / fx_rate_date to every row with a usable rate and reports the
+ * rest in footer.fx.missing_rates (skipped rates-file lines in footer.fx.rate_errors).
+ * Rows in "unknown" currency use the header currency.
+ */
+export function convertStatement(stmt: NormalizedStatement, opts: FxOptions): NormalizedStatement {
+  const functional = normalizeCurrency(opts.functionalCurrency);
+  const policy = opts.policy ?? "same_day";
+  const { rates, errors } = opts.rates ? { rates: opts.rates, errors: [] } : loadFxRates();
+  const scale = minorUnits(functional);
+
+  const missing_rates: number[] = [];
+  const transactions = stmt.transactions.map((t, i): NormalizedTxn => {
+    const { functional_amount: _a, fx_rate: _r, fx_rate_date: _d, ...txn } = t;
+    const from = txn.currency !== "unknown" ? txn.currency : stmt.header.currency;
+    const hit = functional !== "unknown" && from !== "unknown" && txn.date !== "unknown"
+      ? lookupRate(rates, from, functional, txn.date, policy)
+      : null;
+    if (!hit) { missing_rates.push(i); return txn; }
+    const converted = rescale(mulMoney(parseMoney(txn.amount), parseMoney(hit.rate)), scale);
+    return { ...txn, functional_amount: formatMoney(converted), fx_rate: hit.rate, fx_rate_date: hit.date };
+  });
+
+  const fx: FxReport = {
+    functional_currency: functional,
+    policy,
+    converted: transactions.length - missing_rates.length,
+    missing_rates,
+    total_functional: sumAmounts(transactions.flatMap(t => (t.functional_amount !== undefined ? [t.functional_amount] : [])), functional),
+    ...(errors.length ? { rate_errors: errors } : {}),
+  };
+  return { ...stmt, transactions, footer: { ...stmt.footer, fx } };
+}
@@ -0,0 +1,107 @@
+// lib/journal-entries.ts
+import { existsSync, readFileSync } from "fs";
+import { resolve as pathResolve } from "path";
+import { JournalEntry, JournalLine, NormalizedStatement, NormalizedTxn } from "./types";
+import { amountToNumber, equalsMoney, normalizeAmount, sumAmounts } from "./normalize";
+
+// ===== GL mapping config =====
+export type GlAccountMap = Record<string, {
+  gl_account: string;        // GL account that represents the bank account itself
+  offset_account?: string;   // default counter-account for this bank account
+  name?: string;
+}>;
+
+export type GlConfig = {
+  accounts: GlAccountMap;     // keyed by header.bank_account (scrubbed, see cleanIdentifier)
+  default_bank_account: string;
+  default_card_account: string;   // liability GL for unmapped credit card statements
+  default_loan_account: string;   // liability GL for unmapped loan statements
+  suspense_account: string;   // offset used when nothing better is known
+};
+
+const DEFAULT_GL_CONFIG: GlConfig = {
+  accounts: {},
+  default_bank_account: "1000",
+  default_card_account: "2100",
+  default_loan_account: "2500",
+  suspense_account: "9999",
+};
+
+/** Load GL mapping from BANK2JE_GL_CONFIG (or config/gl-accounts.json); falls back to defaults. */
+export function loadGlConfig(path = process.env.BANK2JE_GL_CONFIG ?? "config/gl-accounts.json"): GlConfig {
+  const full = pathResolve(process.cwd(), path);
+  if (!existsSync(full)) return DEFAULT_GL_CONFIG;
+  const raw = JSON.parse(readFileSync(full, "utf8"));
+  return {
+    accounts: raw?.accounts ?? {},
+    default_bank_account: String(raw?.default_bank_account ?? DEFAULT_GL_CONFIG.default_bank_account),
+    default_card_account: String(raw?.default_card_account ?? DEFAULT_GL_CONFIG.default_card_account),
+    default_loan_account: String(raw?.default_loan_account ?? DEFAULT_GL_CONFIG.default_loan_account),
+    suspense_account: String(raw?.suspense_account ?? DEFAULT_GL_CONFIG.suspense_account),
+  };
+}
+
+// ===== Entry builder =====
+export type OffsetResolver = (txn: NormalizedTxn, index: number) => { account: string; memo?: string } | null;
+
+function absAmount(a: string, currency: string): string {
+  return normalizeAmount(a.replace(/^-/, ""), undefined, currency);
+}
+
+function assertBalanced(lines: JournalLine[], currency: string, where: string) {
+  const debits = sumAmounts(lines.map(l => l.debit), currency);
+  const credits = sumAmounts(lines.map(l => l.credit), currency);
+  if (!equalsMoney(debits, credits, currency)) {
+    throw new Error(`Unbalanced journal entry (${where}): debits ${debits} != credits ${credits}`);
+  }
+}
+
+/**
+ * One balanced two-line entry per transaction:
+ * - inflow (amount > 0): Dr bank GL / Cr offset
+ * - outflow (amount < 0): Dr offset / Cr bank GL
+ * Amounts are from the holder's side for every account type, so on a credit card or loan the same
+ * lines read as liability movements: a purchase (< 0) is Dr expense / Cr card, a payment Dr card / Cr offset.
+ * Zero-amount rows produce no entry.
+ */
+export function buildJournalEntries(
+  stmt: NormalizedStatement,
+  config: GlConfig = DEFAULT_GL_CONFIG,
+  resolveOffset?: OffsetResolver
+): JournalEntry[] {
+  const mapped = config.accounts[stmt.header.bank_account];
+  const type = stmt.header.account_type;
+  const bankGl = mapped?.gl_account
+    ?? (type === "credit_card" ? config.default_card_account : type === "loan" ? config.default_loan_account : config.default_bank_account);
+  const defaultOffset = mapped?.offset_account ?? config.suspense_account;
+
+  const entries: JournalEntry[] = [];
+  stmt.transactions.forEach((txn, i) => {
+    const n = amountToNumber(txn.amount);
+    if (n === 0) return;
+
+    const amt = absAmount(txn.amount, txn.currency);
+    const zero = normalizeAmount("0", undefined, txn.currency);
+    const offset = resolveOffset?.(txn, i) ?? null;
+    const offsetAccount = offset?.account || defaultOffset;
+    const memo = offset?.memo || txn.description;
+
+    const bankLine: JournalLine = n > 0
+      ? { account: bankGl, debit: amt, credit: zero, memo }
+      : { account: bankGl, debit: zero, credit: amt, memo };
+    const offsetLine: JournalLine = n > 0
+      ? { account: offsetAccount, debit: zero, credit: amt, memo }
+      : { account: offsetAccount, debit: amt, credit: zero, memo };
+
+    const lines = [bankLine, offsetLine];
+    assertBalanced(lines, txn.currency, `txn ${i}`);
+    entries.push({
+      txn_index: i,
+      date: txn.date,
+      description: txn.description,
+      currency: txn.currency,
+      lines,
+    });
+  });
+  return entries;
+}
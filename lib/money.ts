@@ -0,0 +1,105 @@
+// lib/money.ts
+// Exact money: integer minor units (bigint) at the statement currency's ISO 4217 precision.
+// Amount strings stay the wire format; arithmetic never goes through floating point.
+
+export type Money = { minor: bigint; scale: number };   // value = minor / 10^scale
+
+// ISO 4217 minor units that differ from the usual 2
+const MINOR_UNITS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+export const DEFAULT_MINOR_UNITS = 2;
+
+const ZERO = BigInt(0);
+const TEN = BigInt(10);
+const pow10 = (n: number) => { let p = BigInt(1); for (let i = 0; i < n; i++) p *= TEN; return p; };
+
+/** Decimal places for a currency; 2 when unknown. */
+export function minorUnits(currency?: string): number {
+  const c = (currency ?? "").toUpperCase();
+  return MINOR_UNITS[c] ?? DEFAULT_MINOR_UNITS;
+}
+
+const RE_DECIMAL = /^([-+]?)(\d*)(?:\.(\d*))?$/;
+
+/** Decimal places printed in a canonical amount string ("12.345" → 3). */
+export function decimalsOf(a: string): number {
+  const m = RE_DECIMAL.exec((a ?? "").replace(/,/g, "").trim());
+  return m?.[3]?.length ?? 0;
+}
+
+/**
+ * Canonical decimal string → Money. `scale` defaults to the digits printed;
+ * extra digits are rounded half away from zero. Unparseable input is zero.
+ */
+export function parseMoney(a: string, scale?: number): Money {
+  const m = RE_DECIMAL.exec((a ?? "").replace(/,/g, "").trim());
+  const s = scale ?? decimalsOf(a);
+  if (!m || !(m[2] || m[3])) return { minor: ZERO, scale: s };
+  const frac = m[3] ?? "";
+  let minor = BigInt((m[2] || "0") + frac.slice(0, s).padEnd(s, "0"));
+  if (frac.length > s && Number(frac[s]) >= 5) minor += BigInt(1);
+  return { minor: m[1] === "-" ? -minor : minor, scale: s };
+}
+
+/** Money → canonical signed string with exactly `scale` decimals (no dot at scale 0). */
+export function formatMoney(m: Money): string {
+  const neg = m.minor < ZERO;
+  const digits = (neg ? -m.minor : m.minor).toString().padStart(m.scale + 1, "0");
+  const int = m.scale ? digits.slice(0, -m.scale) : digits;
+  const frac = m.scale ? `.${digits.slice(-m.scale)}` : "";
+  return `${neg && m.minor !== ZERO ? "-" : ""}${int}${frac}`;
+}
+
+/** Same value at another scale (rounded half away from zero when shrinking). */
+export function rescale(m: Money, scale: number): Money {
+  if (scale >= m.scale) return { minor: m.minor * pow10(scale - m.scale), scale };
+  const div = pow10(m.scale - scale);
+  const neg = m.minor < ZERO;
+  const abs = neg ? -m.minor : m.minor;
+  let q = abs / div;
+  if ((abs % div) * BigInt(2) >= div) q += BigInt(1);
+  return { minor: neg ? -q : q, scale };
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  const s = Math.max(a.scale, b.scale);
+  return { minor: rescale(a, s).minor + rescale(b, s).minor, scale: s };
+}
+
+/** Exact product (scales add): amount × FX rate. */
+export function mulMoney(a: Money, b: Money): Money {
+  return { minor: a.minor * b.minor, scale: a.scale + b.scale };
+}
+
+/** a / b at `scale` decimals, rounded half away from zero (b must be non-zero). */
+export function divMoney(a: Money, b: Money, scale: number): Money {
+  const num = a.minor * pow10(scale + b.scale);
+  const den = b.minor * pow10(a.scale);
+  const neg = (num < ZERO) !== (den < ZERO);
+  const n = num < ZERO ? -num : num;
+  const d = den < ZERO ? -den : den;
+  let q = n / d;
+  if ((n % d) * BigInt(2) >= d) q += BigInt(1);
+  return { minor: neg ? -q : q, scale };
+}
+
+export function negMoney(a: Money): Money {
+  return { minor: -a.minor, scale: a.scale };
+}
+
+export function compareMoney(a: Money, b: Money): number {
+  const s = Math.max(a.scale, b.scale);
+  const d = rescale(a, s).minor - rescale(b, s).minor;
+  return d > ZERO ? 1 : d < ZERO ? -1 : 0;
+}
+
+/** True when `a` is a canonical amount at the currency's precision (any precision when no ISO code). */
+export function isNormalizedAmount(a: string, currency?: string): boolean {
+  if (!currency || !/^[A-Z]{3}$/.test(currency)) return /^-?\d+(\.\d+)?$/.test(a);
+  const s = minorUnits(currency);
+  return new RegExp(s ? String.raw`^-?\d+\.\d{${s}}$` : String.raw`^-?\d+$`).test(a);
+}
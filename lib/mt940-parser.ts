@@ -0,0 +1,122 @@
+// lib/mt940-parser.ts
+// SWIFT MT940 customer statement → InRow[] + header Meta.
+import type { InRow, ParsedRows } from "./rows-to-normalized";
+
+/** True when the buffer looks like an MT940 message (:20: + :60F:/:60M: tags). */
+export function looksLikeMt940(buf: Buffer): boolean {
+  const head = buf.slice(0, 4096).toString("utf8");
+  return /(^|\n):20:/.test(head) && /(^|\n):6[02][FM]:/.test(head);
+}
+
+type Field = { tag: string; value: string };
+
+// Split the message body into :TAG: fields; continuation lines stay with their field
+function fields(src: string): Field[] {
+  const out: Field[] = [];
+  for (const line of src.replace(/\r/g, "").split("\n")) {
+    const m = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (m) out.push({ tag: m[1], value: m[2] });
+    else if (out.length && line.trim() && !/^-\}?$/.test(line.trim())) out[out.length - 1].value += "\n" + line;
+  }
+  return out;
+}
+
+const swiftAmount = (s: string) => s.replace(",", ".");   // "1234,56" → "1234.56"
+const yymmdd = (s: string) => `20${s.slice(0, 2)}-${s.slice(2, 4)}-${s.slice(4, 6)}`;
+
+// :60F: / :62F: → C250731EUR1234,56
+function balance(value: string): { amount: string; date: string; currency: string } | null {
+  const m = /^([CD])(\d{6})([A-Z]{3})([\d,]+)/.exec(value.trim());
+  if (!m) return null;
+  const amt = swiftAmount(m[4]);
+  return { amount: m[1] === "D" ? `-${amt}` : amt, date: yymmdd(m[2]), currency: m[3] };
+}
+
+// :61: → YYMMDD[MMDD](C|D|RC|RD)[funds code]amount(N|F|S)XXX ref[//bank ref][\n details]
+const RE_61 = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?([\d,]+)([NFS][A-Z0-9]{3})([^\n/]*)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+// :86: remittance info: German ?20–?29/?32–?33 subfields, SWIFT /REMI/ codes, or free text
+function remittance(value: string): string {
+  const flat = value.replace(/\n/g, "");
+  if (/\?\d{2}/.test(flat)) {
+    const parts: string[] = [];
+    const re = /\?(\d{2})([^?]*)/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(flat))) {
+      const code = Number(m[1]);
+      if ((code >= 20 && code <= 29) || (code >= 60 && code <= 63) || code === 32 || code === 33) parts.push(m[2].trim());
+    }
+    return parts.filter(Boolean).join(" ");
+  }
+  if (/\/(REMI|NAME|ORDP|BENM)\//.test(flat)) {
+    const pick = (code: string) => new RegExp(`/${code}/(?:/?NAME/)?([^/]*)`).exec(flat)?.[1]?.trim() ?? "";
+    return [pick("NAME") || pick("ORDP") || pick("BENM"), pick("REMI")].filter(Boolean).join(" ");
+  }
+  return value.replace(/\s*\n\s*/g, " ").trim();
+}
+
+export function parseMt940(buf: Buffer): ParsedRows {
+  const src = buf.toString("utf8");
+  const all = fields(src);
+
+  const rows: InRow[] = [];
+  let account = "", opening: ReturnType<typeof balance> = null, closing: ReturnType<typeof balance> = null;
+  let pending: InRow | null = null;
+
+  for (const f of all) {
+    switch (f.tag) {
+      case "25":
+        account = account || f.value.trim();
+        break;
+      case "60F":
+      case "60M":
+        // first opening balance of the file wins (multi-part statements repeat it as :60M:)
+        opening = opening ?? balance(f.value);
+        break;
+      case "61": {
+        const m = RE_61.exec(f.value.trim());
+        if (!m) break;
+        const [, valueDate, , mark, , amt, , custRef, bankRef, details] = m;
+        const negative = mark === "D" || mark === "RC";
+        pending = {
+          date: yymmdd(valueDate),
+          description: (details ?? "").trim() || custRef.trim(),
+          amount: `${negative ? "-" : ""}${swiftAmount(amt)}`,
+          currency: opening?.currency,
+          fitid: (bankRef ?? "").trim() || (custRef.trim() !== "NONREF" ? custRef.trim() : "") || undefined,
+          marked: true,   // C/D mark
+        };
+        rows.push(pending);
+        break;
+      }
+      case "86":
+        if (pending) {
+          const info = remittance(f.value);
+          if (info) pending.description = info;
+          pending = null;
+        }
+        break;
+      case "62F":
+      case "62M":
+        closing = balance(f.value);   // last closing balance wins
+        pending = null;
+        break;
+    }
+  }
+
+  const bic = /\{1:F\d{2}([A-Z0-9]{8})/.exec(src)?.[1];
+  // :25: is "BANKCODE/ACCOUNT" or an IBAN
+  const acctId = account.includes("/") ? account.split("/").pop()! : account;
+
+  return {
+    rows,
+    meta: {
+      bank: bic || (account.includes("/") ? account.split("/")[0] : undefined),
+      bank_account: acctId || undefined,
+      statement_date: closing?.date,
+      opening_balance: opening?.amount,
+      closing_balance: closing?.amount,
+      currency: closing?.currency ?? opening?.currency,
+    },
+  };
+}
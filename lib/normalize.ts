@@ -1,5 +1,12 @@
 // lib/normalize.ts
-import { NormalizedAmount, ISODate, ISOCurrency } from "./types";
+import {
+  NormalizedAmount, ISODate, ISOCurrency, NormalizedStatement, ScoreCheck, ScoreExplanation, StatementExplanation,
+  TxnOcrConfidence,
+} from "./types";
+import { NumberFormat, amountText } from "./amount-parser";
+import {
+  addMoney, compareMoney, decimalsOf, formatMoney, isNormalizedAmount, minorUnits, negMoney, parseMoney, rescale,
+} from "./money";
 
 function clamp01(x: number) { return Math.max(0, Math.min(1, x)); }
 function to5(x: number): string { return (Math.round(clamp01(x) * 1e5) / 1e5).toFixed(5); }
@@ -23,7 +30,10 @@ export function cleanIdentifier(raw: string): string {
   const out = s.replace(/[^A-Za-z0-9]/g, "");
   return out || "unknown";
 }
-export function toISODate(raw: string): ISODate {
+export type DateOrder = "DMY" | "MDY" | "YMD";
+
+/** `order` pins how numeric d/m/y tokens are read (e.g. from a bank profile); otherwise guessed per cell. */
+export function toISODate(raw: string, order?: DateOrder): ISODate {
   const t = (raw ?? "").toString().trim();
   if (!t) return "unknown";
 
@@ -34,21 +44,34 @@ export function toISODate(raw: string): ISODate {
   const named2 = /^(\d{1,2})\s+([A-Za-z]{3,9})\s+(\d{4})$/;         // 31 Aug 2025
   const months: Record<string,string> = { jan:"01", feb:"02", mar:"03", apr:"04", may:"05", jun:"06",
     jul:"07", aug:"08", sep:"09", sept:"09", oct:"10", nov:"11", dec:"12" };
-  const mm = (name: string) => months[name.toLowerCase()] ?? "01";
+  const mm = (name: string) => months[name.toLowerCase()] ?? months[name.toLowerCase().slice(0, 3)] ?? "01";
+  // numeric parts → ISO; month 1–12 and day 1–31 or "unknown"
+  const iso = (y: string, m: string, d: string): ISODate => {
+    const Y = y.length === 2 ? `20${y}` : y;
+    if (Number(m) < 1 || Number(m) > 12 || Number(d) < 1 || Number(d) > 31) return "unknown";
+    return `${Y}-${m.padStart(2,"0")}-${d.padStart(2,"0")}`;
+  };
 
   // strict Y-M-D
-  if (mYMD.test(t)) { const [, y,m,d] = t.match(mYMD)!; return `${y}-${m.padStart(2,"0")}-${d.padStart(2,"0")}`; }
+  if (mYMD.test(t)) { const [, y,m,d] = t.match(mYMD)!; return iso(y, m, d); }
 
-  // if dd first & day > 12 assume DMY, else if month > 12 assume MDY
+  // caller knows the order
+  if (order === "DMY" || order === "MDY") {
+    const m = t.match(mDMY);
+    if (m) {
+      const [a, b] = order === "DMY" ? [m[2], m[1]] : [m[1], m[2]];   // [month, day]
+      return iso(m[3], a, b);
+    }
+  }
+
+  // first part > 12 → DMY; otherwise MDY (07/31/2025 as well as the ambiguous 03/04/2025)
   if (mDMY.test(t)) {
     const [, d,m,y] = t.match(mDMY)!;
-    const Y = y.length === 2 ? `20${y}` : y;
-    if (Number(d) > 12) return `${Y}-${String(m).padStart(2,"0")}-${String(d).padStart(2,"0")}`;
+    if (Number(d) > 12) return iso(y, m, d);
   }
   if (mMDY.test(t)) {
     const [, m,d,y] = t.match(mMDY)!;
-    const Y = y.length === 2 ? `20${y}` : y;
-    if (Number(m) > 12 || Number(d) <= 12) return `${Y}-${String(m).padStart(2,"0")}-${String(d).padStart(2,"0")}`;
+    return iso(y, m, d);
   }
 
   if (named1.test(t)) { const [, mon,d,y] = t.match(named1)!; return `${y}-${mm(mon)}-${String(d).padStart(2,"0")}`; }
@@ -65,83 +88,169 @@ export function normalizeCurrency(input?: string): ISOCurrency {
   for (const sym of Object.keys(SYMBOL_TO_ISO)) if (s.includes(sym)) return SYMBOL_TO_ISO[sym];
   return "unknown";
 }
-export function normalizeAmount(raw: string): NormalizedAmount {
-  let s = (raw ?? "").toString().trim();
-  if (!s) return "0.00";
-  const parenNeg = /^\(.*\)$/.test(s);
-  s = s.replace(/[(),]/g, "").replace(/[^\d.\-]/g, "");
-  if (!s || s === "-" || s === ".") return "0.00";
-  let n = Number(s); if (Number.isNaN(n)) n = 0;
-  if (parenNeg) n = -Math.abs(n);
-  return n.toFixed(2);
+/**
+ * Signed amount at the currency's minor-unit precision (2 decimals when the currency is unknown);
+ * `fmt` is the document's number format (see inferNumberFormat).
+ */
+export function normalizeAmount(raw: string, fmt?: NumberFormat, currency?: string): NormalizedAmount {
+  return formatMoney(parseMoney(amountText(raw, fmt) ?? "0", minorUnits(currency)));
+}
+/** Signed amount keeping every printed decimal (at least 2), for parsers that don't know the currency yet. */
+export function exactAmount(raw: string, fmt?: NumberFormat): NormalizedAmount {
+  const t = amountText(raw, fmt) ?? "0";
+  return formatMoney(parseMoney(t, Math.max(2, decimalsOf(t))));
 }
 
 
-// ===== Money math helpers =====
+// ===== Money math helpers (bigint minor units, see lib/money.ts) =====
+// Without a currency the result keeps the widest precision of its inputs (at least 2 decimals).
+const scaleFor = (vals: string[], currency?: string) =>
+  currency ? minorUnits(currency) : Math.max(2, ...vals.map(decimalsOf));
+
+/** Credit cards and loans: balances are amounts owed, so spending (negative amounts) raises them. */
+export function isLiabilityAccount(type?: string): boolean {
+  return type === "credit_card" || type === "loan";
+}
+
+/** Float view for thresholds and sign checks only; never for sums. */
 export function amountToNumber(a: string): number {
   const n = Number((a || "0").replace(/,/g, ""));
-  return Number.isFinite(n) ? Math.round(n * 100) / 100 : 0;
+  return Number.isFinite(n) ? n : 0;
+}
+export function sumAmounts(vals: string[], currency?: string): string {
+  const scale = scaleFor(vals, currency);
+  const total = vals.reduce((acc, v) => addMoney(acc, parseMoney(v)), parseMoney("0", scale));
+  return formatMoney(rescale(total, scale));
+}
+export function negateAmount(a: string): string {
+  return formatMoney(negMoney(parseMoney(a || "0", Math.max(2, decimalsOf(a)))));
 }
-export function sumAmounts(vals: string[]): string {
-  const cents = vals.reduce((acc, v) => acc + Math.round(amountToNumber(v) * 100), 0);
-  return (cents / 100).toFixed(2);
+export function equalsMoney(a: string, b: string, currency?: string): boolean {
+  const scale = scaleFor([a, b], currency);
+  return compareMoney(rescale(parseMoney(a), scale), rescale(parseMoney(b), scale)) === 0;
 }
-export function equalsMoney(a: string, b: string): boolean {
-  return amountToNumber(a).toFixed(2) === amountToNumber(b).toFixed(2);
+
+type BalanceHeader = { opening_balance: string; closing_balance: string; currency?: string; account_type?: string };
+
+/** opening + total == closing; for cards and loans (balances owed) opening − total == closing. */
+export function balancesReconcile(header: BalanceHeader, total: string): boolean {
+  const cur = header.currency;
+  const change = isLiabilityAccount(header.account_type) ? negateAmount(total) : total;
+  return equalsMoney(sumAmounts([header.opening_balance, change], cur), header.closing_balance, cur);
 }
 
 // ===== Semantic scoring =====
-export function rowPointFrom(row: { date: string; description: string; amount: string; currency: string }): string {
-  const dateOK = row.date !== "unknown" && /^\d{4}-\d{2}-\d{2}$/.test(row.date) ? 1 : 0;
-  const amtOK  = /^-?\d+\.\d{2}$/.test(row.amount) ? 1 : 0;
-  const descOK = Math.max(0, Math.min(1, (row.description || "").replace(/\s+/g, " ").trim().length / 40));
-  const curOK  = /^[A-Z]{3}$/.test(row.currency) ? 1 : 0;
-  const score = 0.30*dateOK + 0.40*amtOK + 0.20*descOK + 0.10*curOK;
-  const j = jitter(`${row.date}|${row.description}|${row.amount}|${row.currency}`, 0.005);
-  return to5(score + j);
+// Each score is a weighted sum of checks plus a small jitter; the explain* variants return the
+// breakdown and the *PointFrom functions return just its score.
+function check(name: string, weight: number, value: number): ScoreCheck {
+  return { name, weight, value, passed: value >= 1, contribution: Math.round(weight * value * 1e5) / 1e5 };
 }
+function explained(checks: ScoreCheck[], j: number): ScoreExplanation {
+  const score = checks.reduce((s, c) => s + c.weight * c.value, 0);   // unrounded, as the score always was
+  return { score: to5(score + j), checks, jitter: j };
+}
+const isoDateOK = (d: string) => (d !== "unknown" && /^\d{4}-\d{2}-\d{2}$/.test(d) ? 1 : 0);
+const isoCurrencyOK = (c: string) => (/^[A-Z]{3}$/.test(c) ? 1 : 0);
+
+type RowFields = { date: string; description: string; amount: string; currency: string; ocr?: TxnOcrConfidence };
 
-export function headerPointFrom(header: {
+// OCR'd rows lose up to this much, in proportion to their low-confidence words
+const OCR_PENALTY = 0.25;
+
+function ocrCheck(ocr: TxnOcrConfidence): ScoreCheck {
+  const low = ocr.words ? ocr.low_confidence_words.length / ocr.words : 0;
+  return { ...check("ocr_low_confidence_words", -OCR_PENALTY, low), passed: low === 0 };
+}
+
+export function explainRowPoint(row: RowFields): ScoreExplanation {
+  const descLen = (row.description || "").replace(/\s+/g, " ").trim().length;
+  return explained([
+    check("date_parsed", 0.30, isoDateOK(row.date)),
+    check("amount_well_formed", 0.40, isNormalizedAmount(row.amount, row.currency) ? 1 : 0),
+    check("description_length", 0.20, Math.max(0, Math.min(1, descLen / 40))),   // full credit at 40 chars
+    check("currency_iso", 0.10, isoCurrencyOK(row.currency)),
+    ...(row.ocr ? [ocrCheck(row.ocr)] : []),
+  ], jitter(`${row.date}|${row.description}|${row.amount}|${row.currency}`, 0.005));
+}
+
+export function rowPointFrom(row: RowFields): string {
+  return explainRowPoint(row).score;
+}
+
+type HeaderFields = {
   bank: string; bank_account: string; customer_account_number: string;
   statement_date: string; opening_balance: string; closing_balance: string; currency: string;
-}): string {
-  const bankOK  = header.bank !== "unknown" ? 1 : 0;
-  const acctOK  = header.bank_account !== "unknown" ? 1 : 0;
-  const custOK  = header.customer_account_number !== "unknown" ? 1 : 0;
-  const dateOK  = header.statement_date !== "unknown" && /^\d{4}-\d{2}-\d{2}$/.test(header.statement_date) ? 1 : 0;
-  const openOK  = /^-?\d+\.\d{2}$/.test(header.opening_balance) ? 1 : 0;
-  const closeOK = /^-?\d+\.\d{2}$/.test(header.closing_balance) ? 1 : 0;
-  const currOK  = /^[A-Z]{3}$/.test(header.currency) ? 1 : 0;
-  const score = 0.18*bankOK + 0.14*acctOK + 0.14*custOK + 0.18*dateOK + 0.12*openOK + 0.12*closeOK + 0.12*currOK;
-  const j = jitter(`${header.bank}|${header.bank_account}|${header.customer_account_number}|${header.statement_date}|${header.opening_balance}|${header.closing_balance}|${header.currency}`, 0.005);
-  return to5(score + j);
+};
+
+export function explainHeaderPoint(header: HeaderFields): ScoreExplanation {
+  return explained([
+    check("bank_known", 0.18, header.bank !== "unknown" ? 1 : 0),
+    check("bank_account_known", 0.14, header.bank_account !== "unknown" ? 1 : 0),
+    check("customer_account_known", 0.14, header.customer_account_number !== "unknown" ? 1 : 0),
+    check("statement_date_parsed", 0.18, isoDateOK(header.statement_date)),
+    check("opening_balance_well_formed", 0.12, isNormalizedAmount(header.opening_balance, header.currency) ? 1 : 0),
+    check("closing_balance_well_formed", 0.12, isNormalizedAmount(header.closing_balance, header.currency) ? 1 : 0),
+    check("currency_iso", 0.12, isoCurrencyOK(header.currency)),
+  ], jitter(`${header.bank}|${header.bank_account}|${header.customer_account_number}|${header.statement_date}|${header.opening_balance}|${header.closing_balance}|${header.currency}`, 0.005));
+}
+
+export function headerPointFrom(header: HeaderFields): string {
+  return explainHeaderPoint(header).score;
 }
 
 // New doc-point spec:
 // mean(header_row_point + avg(row_points)) + 0.1 bonus if opening + sum(txns) == closing (cap at 1.0)
-export function docPointFrom(
-  header: { row_point: string; opening_balance: string; closing_balance: string },
+// (opening − sum == closing for credit cards and loans)
+export function explainDocPoint(
+  header: BalanceHeader & { row_point: string },
   rows: Array<{ row_point: string; amount: string }>
-): string {
+): ScoreExplanation {
   const headerNum = Number(header.row_point || "0");
   const avgRow = rows.length ? rows.reduce((s, r) => s + Number(r.row_point || "0"), 0) / rows.length : 0;
   const base = (headerNum + avgRow) / 2;
 
-  const total = sumAmounts(rows.map(r => r.amount));
-  const balanced = equalsMoney(sumAmounts([header.opening_balance, total]), header.closing_balance);
+  const total = sumAmounts(rows.map(r => r.amount), header.currency);
+  const balanced = balancesReconcile(header, total);
   const bonus = balanced ? 0.1 : 0;
 
+  // score keeps the original formula so the string matches doc_point exactly
   const final = Math.min(1, base + bonus);
-  return (Math.round(final * 1e5) / 1e5).toFixed(5);
+  return {
+    score: (Math.round(final * 1e5) / 1e5).toFixed(5),
+    checks: [
+      check("header_row_point", 0.5, headerNum),
+      check("avg_row_point", 0.5, avgRow),
+      check("balanced_bonus", 0.1, balanced ? 1 : 0),
+    ],
+    jitter: 0,
+  };
+}
+
+export function docPointFrom(
+  header: BalanceHeader & { row_point: string },
+  rows: Array<{ row_point: string; amount: string }>
+): string {
+  return explainDocPoint(header, rows).score;
+}
+
+/** Breakdowns for a normalized statement's header, rows and document (`?explain=1`). */
+export function explainStatement(stmt: NormalizedStatement): StatementExplanation {
+  return {
+    header: explainHeaderPoint(stmt.header),
+    rows: stmt.transactions.map(explainRowPoint),
+    document: explainDocPoint(stmt.header, stmt.transactions),
+  };
 }
 
 export function footerStatsFrom(
-  header: { row_point: string; opening_balance: string; closing_balance: string },
+  header: BalanceHeader & { row_point: string },
   rows: Array<{ row_point: string; amount: string }>
 ): { num_transactions: number; total_amount_parsed: string; balanced: boolean; doc_point: string } {
+  // totals at the statement currency's precision (JPY 0, BHD 3, ...)
+  const cur = header.currency;
   const num_transactions = rows.length;
-  const total_amount_parsed = sumAmounts(rows.map(r => r.amount));
-  const balanced = equalsMoney(sumAmounts([header.opening_balance, total_amount_parsed]), header.closing_balance);
+  const total_amount_parsed = sumAmounts(rows.map(r => r.amount), cur);
+  const balanced = balancesReconcile(header, total_amount_parsed);
   const doc_point = docPointFrom(header, rows);
   return { num_transactions, total_amount_parsed, balanced, doc_point };
 }
@@ -0,0 +1,253 @@
+// lib/ocr.ts
+// OCR settings, page-image preprocessing and confidence scoring for the tesseract.js strategy
+// (the rendering and recognition loop itself is ocrWithTesseract in pdf-parser.ts).
+// Pixel work is plain typed-array math on canvas ImageData, so it needs no image library.
+import { existsSync } from "fs";
+import { join, resolve as pathResolve } from "path";
+import { NormalizedStatement, NormalizedTxn, OcrLine, OcrPage, OcrReport, OcrSummary, OcrWord } from "./types";
+import { footerStatsFrom, rowPointFrom } from "./normalize";
+
+export type OcrOptions = {
+  languages?: string[];   // Tesseract codes, combined like "eng+fil"
+  langPath?: string;      // local directory with <lang>.traineddata (or .traineddata.gz)
+  scale?: number;         // pdf.js render scale; 3 ≈ 216 dpi
+  preprocess?: boolean;   // grayscale + adaptive threshold + deskew (default on)
+  cropHeader?: number;    // fraction of the page height cut from the top of pages 2+ (repeated letterhead)
+};
+
+export type OcrSettings = Required<Omit<OcrOptions, "langPath">> & { langPath?: string; gzip: boolean };
+
+const DEFAULT_LANG_DIR = "config/tessdata";
+const DEFAULT_SCALE = 3.0;
+const MAX_CROP_HEADER = 0.5;
+const LANG_RE = /^[a-z]{3}(?:_[a-z]+)?$/i;          // eng, fil, chi_sim, ...
+export const LOW_OCR_CONFIDENCE = 60;                // Tesseract word/page confidence below this counts as doubtful
+
+// ===== Settings =====
+// "eng+fil", "eng,fil", "eng fil" → ["eng", "fil"]
+const splitLanguages = (raw: string) => raw.split(/[+,\s]+/).map(s => s.trim().toLowerCase()).filter(Boolean);
+
+function languageFile(dir: string, lang: string): { gzip: boolean } | null {
+  if (existsSync(join(dir, `${lang}.traineddata`))) return { gzip: false };
+  if (existsSync(join(dir, `${lang}.traineddata.gz`))) return { gzip: true };
+  return null;
+}
+
+/**
+ * Options over env defaults (BANK2JE_OCR_LANGS, BANK2JE_OCR_LANG_PATH, BANK2JE_OCR_SCALE,
+ * BANK2JE_OCR_CROP_HEADER). Language packs come from the local directory when one is configured
+ * (or config/tessdata exists); otherwise tesseract.js fetches them as before.
+ */
+export function resolveOcrSettings(opts: OcrOptions = {}): OcrSettings {
+  const languages = opts.languages?.length ? opts.languages : splitLanguages(process.env.BANK2JE_OCR_LANGS ?? "eng");
+  const bad = languages.find(l => !LANG_RE.test(l));
+  if (bad) throw new Error(`Bad OCR language code "${bad}"`);
+
+  const configured = opts.langPath ?? process.env.BANK2JE_OCR_LANG_PATH;
+  const dir = configured ?? (existsSync(pathResolve(process.cwd(), DEFAULT_LANG_DIR)) ? DEFAULT_LANG_DIR : undefined);
+  let langPath: string | undefined;
+  let gzip = true;
+  if (dir) {
+    langPath = pathResolve(process.cwd(), dir);
+    const files = languages.map(l => ({ lang: l, file: languageFile(langPath!, l) }));
+    const missing = files.filter(f => !f.file).map(f => f.lang);
+    if (missing.length) throw new Error(`OCR language pack(s) ${missing.join(", ")} not found in ${langPath}`);
+    // tesseract.js takes one gzip flag per worker
+    if (new Set(files.map(f => f.file!.gzip)).size > 1) throw new Error(`Mixed .traineddata / .traineddata.gz files in ${langPath}`);
+    gzip = files[0].file!.gzip;
+  }
+
+  const scale = opts.scale ?? Number(process.env.BANK2JE_OCR_SCALE ?? DEFAULT_SCALE);
+  const cropHeader = opts.cropHeader ?? Number(process.env.BANK2JE_OCR_CROP_HEADER ?? 0);
+  return {
+    languages,
+    langPath,
+    gzip,
+    scale: scale > 0 ? scale : DEFAULT_SCALE,
+    preprocess: opts.preprocess ?? true,
+    cropHeader: Math.max(0, Math.min(MAX_CROP_HEADER, cropHeader || 0)),
+  };
+}
+
+/** `?ocr_lang=eng+fil&ocr_crop_header=0.12&ocr_preprocess=0`; `error` explains a bad value. */
+export function ocrOptionsFromQuery(params: URLSearchParams): { ocr?: OcrOptions; error?: string } {
+  const ocr: OcrOptions = {};
+  const lang = params.get("ocr_lang");
+  if (lang) {
+    ocr.languages = splitLanguages(lang);
+    const bad = ocr.languages.find(l => !LANG_RE.test(l));
+    if (bad || !ocr.languages.length) return { error: `ocr_lang must be Tesseract codes joined by "+", e.g. eng+fil` };
+  }
+  const crop = params.get("ocr_crop_header");
+  if (crop !== null) {
+    const n = Number(crop);
+    if (!(n >= 0 && n <= MAX_CROP_HEADER)) return { error: `ocr_crop_header must be a fraction between 0 and ${MAX_CROP_HEADER}` };
+    ocr.cropHeader = n;
+  }
+  if (params.get("ocr_preprocess") === "0") ocr.preprocess = false;
+  return Object.keys(ocr).length ? { ocr } : {};
+}
+
+// ===== Preprocessing =====
+export type Pixels = { data: Uint8ClampedArray; width: number; height: number };   // canvas ImageData (RGBA)
+
+const THRESHOLD_T = 0.15;        // ink when darker than the local mean by this fraction
+const MAX_SKEW_DEGREES = 5;
+const MIN_SKEW_DEGREES = 0.3;    // below this a rotation blurs more than it straightens
+const MAX_SKEW_SAMPLES = 60000;
+
+export function toGrayscale(img: Pixels): Uint8Array {
+  const { data, width, height } = img;
+  const gray = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = Math.round(0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]);
+  }
+  return gray;
+}
+
+/**
+ * Bradley–Roth adaptive threshold: each pixel against the mean of its window (an integral image
+ * keeps it O(n)), so faint scans and shaded table bands still binarize. Returns 1 for ink.
+ */
+export function adaptiveThreshold(gray: Uint8Array, width: number, height: number, window = Math.max(15, Math.round(width / 32))): Uint8Array {
+  const w1 = width + 1;
+  const integral = new Float64Array(w1 * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += gray[y * width + x];
+      integral[(y + 1) * w1 + x + 1] = integral[y * w1 + x + 1] + row;
+    }
+  }
+
+  const half = window >> 1;
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half), y1 = Math.min(height - 1, y + half);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half), x1 = Math.min(width - 1, x + half);
+      const count = (x1 - x0 + 1) * (y1 - y0 + 1);
+      const sum = integral[(y1 + 1) * w1 + x1 + 1] - integral[y0 * w1 + x1 + 1] - integral[(y1 + 1) * w1 + x0] + integral[y0 * w1 + x0];
+      if (gray[y * width + x] * count <= sum * (1 - THRESHOLD_T)) ink[y * width + x] = 1;
+    }
+  }
+  return ink;
+}
+
+/**
+ * Text-line angle in degrees (positive = lines fall to the right): the angle whose row projection
+ * of ink pixels is sharpest. Rotating the page by −angle straightens it.
+ */
+export function estimateSkew(ink: Uint8Array, width: number, height: number): number {
+  let total = 0;
+  for (let i = 0; i < ink.length; i++) total += ink[i];
+  if (!total) return 0;
+  const stride = Math.max(1, Math.ceil(total / MAX_SKEW_SAMPLES));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0, seen = 0; i < ink.length; i++) {
+    if (ink[i] && seen++ % stride === 0) { xs.push(i % width); ys.push(Math.floor(i / width)); }
+  }
+
+  const pad = Math.ceil(width * Math.tan((MAX_SKEW_DEGREES * Math.PI) / 180)) + 1;
+  const bins = new Int32Array(height + 2 * pad);
+  const sharpness = (deg: number) => {
+    const t = Math.tan((deg * Math.PI) / 180);
+    bins.fill(0);
+    for (let k = 0; k < xs.length; k++) bins[Math.round(ys[k] - xs[k] * t) + pad]++;
+    let s = 0;
+    for (let b = 0; b < bins.length; b++) s += bins[b] * bins[b];
+    return s;
+  };
+  const best = (from: number, to: number, step: number, start: number) => {
+    let angle = start, score = sharpness(start);
+    for (let d = from; d <= to + 1e-9; d += step) {
+      const s = sharpness(d);
+      if (s > score) { score = s; angle = d; }
+    }
+    return angle;
+  };
+  const coarse = best(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.25, 0);
+  const fine = best(Math.max(-MAX_SKEW_DEGREES, coarse - 0.25), Math.min(MAX_SKEW_DEGREES, coarse + 0.25), 0.05, coarse);
+  return Math.round(fine * 100) / 100;
+}
+
+/** Ink → black, background → white, in place (RGBA, alpha opaque). */
+export function paintBinary(img: Pixels, ink: Uint8Array): void {
+  for (let i = 0, p = 0; i < ink.length; i++, p += 4) {
+    const v = ink[i] ? 0 : 255;
+    img.data[p] = img.data[p + 1] = img.data[p + 2] = v;
+    img.data[p + 3] = 255;
+  }
+}
+
+/** Grayscale + adaptive threshold in place; returns the skew to correct (0 when negligible). */
+export function preprocessPixels(img: Pixels): { skew: number } {
+  const ink = adaptiveThreshold(toGrayscale(img), img.width, img.height);
+  paintBinary(img, ink);
+  const skew = estimateSkew(ink, img.width, img.height);
+  return { skew: Math.abs(skew) >= MIN_SKEW_DEGREES ? skew : 0 };
+}
+
+// ===== Confidence =====
+const round2 = (x: number) => Math.round(x * 100) / 100;
+const lineKey = (s: string) => (s ?? "").replace(/\s+/g, " ").trim();
+const mean = (xs: number[]) => (xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : 0);
+
+/** Lines and words with confidences from a tesseract.js recognize() result (blocks output). */
+export function ocrPageFrom(page: number, data: any, skew: number): OcrPage {
+  const lines: OcrLine[] = [];
+  for (const block of data?.blocks ?? []) {
+    for (const para of block?.paragraphs ?? []) {
+      for (const line of para?.lines ?? []) {
+        const words: OcrWord[] = (line?.words ?? [])
+          .filter((w: any) => String(w?.text ?? "").trim())
+          .map((w: any) => ({ text: String(w.text).trim(), confidence: round2(Number(w.confidence) || 0) }));
+        lines.push({ text: lineKey(line?.text ?? ""), confidence: round2(Number(line?.confidence) || 0), words });
+      }
+    }
+  }
+  return { page, confidence: round2(Number(data?.confidence) || 0), skew_degrees: skew, lines };
+}
+
+export function ocrReportFrom(languages: string[], pages: OcrPage[]): OcrReport {
+  return { languages, confidence: round2(mean(pages.map(p => p.confidence))), pages };
+}
+
+/**
+ * Attach the confidence of the OCR words each row was read from (matched through `source` lines)
+ * and re-score: low-confidence words lower row_point, and so doc_point.
+ */
+export function applyOcrConfidence(stmt: NormalizedStatement, report: OcrReport): NormalizedStatement {
+  // identical lines (e.g. a repeated fee row) are consumed in reading order
+  const queue = new Map<string, OcrLine[]>();
+  for (const p of report.pages) {
+    for (const l of p.lines) {
+      const key = lineKey(l.text);
+      if (!queue.has(key)) queue.set(key, []);
+      queue.get(key)!.push(l);
+    }
+  }
+
+  const low_confidence_rows: number[] = [];
+  const transactions = stmt.transactions.map((t, i): NormalizedTxn => {
+    const words = (t.source ?? "").split("\n").flatMap(s => queue.get(lineKey(s))?.shift()?.words ?? []);
+    if (!words.length) return t;
+    const low = words.filter(w => w.confidence < LOW_OCR_CONFIDENCE).map(w => w.text);
+    if (low.length) low_confidence_rows.push(i);
+    const txn = { ...t, ocr: { confidence: round2(mean(words.map(w => w.confidence))), words: words.length, low_confidence_words: low } };
+    return { ...txn, row_point: rowPointFrom(txn) };
+  });
+
+  const ocr: OcrSummary = {
+    languages: report.languages,
+    confidence: report.confidence,
+    pages: report.pages.map(p => ({ page: p.page, confidence: p.confidence })),
+    low_confidence_rows,
+  };
+  return {
+    ...stmt,
+    transactions,
+    footer: { ...stmt.footer, ...footerStatsFrom(stmt.header, transactions), ocr },
+  };
+}
@@ -0,0 +1,98 @@
+// lib/ofx-parser.ts
+// OFX 1.x (SGML, leaf tags unclosed) and 2.x (XML) → InRow[] + header Meta.
+import type { InRow, ParsedRows } from "./rows-to-normalized";
+import { negateAmount, sumAmounts } from "./normalize";
+
+export type OfxParseResult = ParsedRows & {
+  period: { start: string; end: string };   // DTSTART / DTEND as YYYY-MM-DD ("" if absent)
+  available_balance?: string;               // AVAILBAL/BALAMT
+};
+
+/** True when the buffer looks like an OFX/QFX document (either version). */
+export function looksLikeOfx(buf: Buffer): boolean {
+  const head = buf.slice(0, 2048).toString("utf8");
+  return /OFXHEADER\s*[:=]/i.test(head) || /<OFX>/i.test(head);
+}
+
+// Leaf value: works for both `<TAG>value` (SGML) and `<TAG>value</TAG>` (XML)
+function leaf(src: string, tag: string): string {
+  const m = new RegExp(`<${tag}>\\s*([^<\\r\\n]*)`, "i").exec(src);
+  return (m?.[1] ?? "").trim();
+}
+
+// Aggregate body; aggregates are closed in both versions
+function block(src: string, tag: string): string {
+  const m = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "i").exec(src);
+  return m?.[1] ?? "";
+}
+function blocks(src: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi");
+  const out: string[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(src))) out.push(m[1]);
+  return out;
+}
+
+// OFX datetime: YYYYMMDD[HHMMSS[.XXX]][[+-]TZ[:name]]
+function ofxDate(raw: string): string {
+  const m = /^(\d{4})(\d{2})(\d{2})/.exec(raw.trim());
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : "";
+}
+
+function decodeEntities(s: string): string {
+  return s.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+}
+
+export function parseOfx(buf: Buffer): OfxParseResult {
+  const src = buf.toString("utf8");
+  const body = src.slice(Math.max(0, src.search(/<OFX>/i)));
+
+  // Bank statements carry BANKACCTFROM; card statements carry CCACCTFROM
+  const bankAcct = block(body, "BANKACCTFROM");
+  const card = !bankAcct && !!block(body, "CCACCTFROM");
+  const acct = bankAcct || block(body, "CCACCTFROM");
+  const org = leaf(block(body, "FI"), "ORG");
+  const currency = leaf(body, "CURDEF");
+
+  const tranList = block(body, "BANKTRANLIST") || body;
+  const rows: InRow[] = blocks(tranList, "STMTTRN").map((t) => {
+    const name = decodeEntities(leaf(t, "NAME") || leaf(t, "PAYEE"));
+    const memo = decodeEntities(leaf(t, "MEMO"));
+    const description = [name, memo && memo !== name ? memo : ""].filter(Boolean).join(" - ");
+    const origCur = block(t, "ORIGCURRENCY");
+    return {
+      date: ofxDate(leaf(t, "DTPOSTED")),
+      description: description || leaf(t, "TRNTYPE"),
+      amount: leaf(t, "TRNAMT"),
+      currency: leaf(origCur, "CURSYM") || currency,
+      fitid: leaf(t, "FITID") || undefined,
+      marked: true,   // TRNAMT is signed from the account holder's side
+    };
+  });
+
+  const ledger = leaf(block(body, "LEDGERBAL"), "BALAMT");
+  const avail = leaf(block(body, "AVAILBAL"), "BALAMT");
+  const dtEnd = ofxDate(leaf(tranList, "DTEND"));
+  const dtAsOf = ofxDate(leaf(block(body, "LEDGERBAL"), "DTASOF"));
+
+  // OFX has no opening balance: back it out of the ledger balance. Amounts and balances are
+  // from the holder's side, so a card's ledger balance is negative; the header reports it as owed.
+  const total = sumAmounts(rows.map(r => r.amount ?? "0"));
+  const opening = ledger ? sumAmounts([ledger, negateAmount(total)]) : undefined;
+  const owed = (a?: string) => (a && card ? negateAmount(a) : a);
+
+  return {
+    rows,
+    meta: {
+      bank: org || leaf(acct, "BANKID") || undefined,
+      bank_account: leaf(acct, "ACCTID") || undefined,
+      statement_date: dtEnd || dtAsOf || undefined,
+      opening_balance: owed(opening),
+      closing_balance: owed(ledger) || undefined,
+      currency: currency || undefined,
+      account_type: card ? "credit_card" : "deposit",
+    },
+    period: { start: ofxDate(leaf(tranList, "DTSTART")), end: dtEnd },
+    ...(avail ? { available_balance: avail } : {}),
+  };
+}
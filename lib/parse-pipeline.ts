@@ -0,0 +1,175 @@
+// lib/parse-pipeline.ts
+// Detection + parsing for one uploaded file, shared by the single-file and batch routes.
+// Parsers are imported lazily so a CSV upload never loads pdf.js / tesseract.
+import type { AccountType, FxPolicy, NormalizedStatement } from "./types";
+import type { Meta } from "./rows-to-normalized";
+import type { OcrOptions } from "./ocr";
+import type { PasswordHints } from "./pdf-passwords";
+
+export type StatementKind = "csv" | "pdf" | "xlsx" | "ofx" | "mt940" | "camt053" | "unknown";
+
+export type ParseOptions = {
+  layout?: boolean;    // pdf.js layout mode before the text chain
+  profile?: string;    // force a bank profile id (PDF)
+  password?: string;   // encrypted PDFs; the configured candidate passwords are tried after it
+  passwordHints?: PasswordHints;   // holder details filling password patterns (lib/pdf-passwords.ts)
+  ocr?: OcrOptions;    // scanned PDFs: languages, preprocessing, header crop
+  accountType?: AccountType;   // overrides the detected deposit / credit_card / loan type
+  fx?: { functionalCurrency: string; policy?: FxPolicy };   // add functional-currency amounts (lib/fx-rates.ts)
+};
+
+export type PipelineResult =
+  | {
+      ok: true;
+      kind: StatementKind;
+      normalized: NormalizedStatement;
+      body: Record<string, unknown>;   // normalized statement + per-kind extras (strategy, warnings, sheets, period, ...)
+    }
+  | { ok: false; kind: StatementKind; status: number; error: string; details?: string };
+
+/** File kind from extension / MIME first, then content sniffing. */
+export async function detectKind(fileName: string, mimeType: string, buf: Buffer): Promise<StatementKind> {
+  const name = (fileName || "").toLowerCase();
+  const mime = (mimeType || "").toLowerCase();
+  const first4 = buf.slice(0, 4).toString("ascii");
+
+  if (name.endsWith(".ofx") || name.endsWith(".qfx") || mime.includes("ofx")) return "ofx";
+  if (/\.(sta|mt940|940)$/.test(name)) return "mt940";
+  if (name.endsWith(".csv") || mime.includes("text/csv")) return "csv";
+  if (first4 === "%PDF" || name.endsWith(".pdf") || mime.includes("pdf")) return "pdf";
+  if (name.endsWith(".xlsx") || mime.includes("spreadsheet")) return "xlsx";
+
+  const { looksLikeOfx } = await import("./ofx-parser");
+  if (looksLikeOfx(buf)) return "ofx";
+  const { looksLikeCamt053 } = await import("./camt053-parser");
+  if (looksLikeCamt053(buf)) return "camt053";
+  const { looksLikeMt940 } = await import("./mt940-parser");
+  if (looksLikeMt940(buf)) return "mt940";
+
+  return "unknown";
+}
+
+// An explicit account type beats whatever the importer detected
+const withAccountType = (meta: Meta, opts: ParseOptions): Meta =>
+  (opts.accountType ? { ...meta, account_type: opts.accountType } : meta);
+
+/** Parse one file of a known kind into the normalized statement (parser exceptions propagate). */
+export async function parseStatement(kind: StatementKind, buf: Buffer, opts: ParseOptions = {}): Promise<PipelineResult> {
+  const result = await parseKind(kind, buf, opts);
+  if (!result.ok || !opts.fx) return result;
+
+  const { convertStatement } = await import("./fx-rates");
+  const normalized = convertStatement(result.normalized, opts.fx);
+  const rateErrors = normalized.footer.fx?.rate_errors ?? [];
+  const warnings = [...(Array.isArray(result.body.warnings) ? result.body.warnings : []), ...rateErrors];
+  return {
+    ...result,
+    normalized,
+    body: { ...result.body, transactions: normalized.transactions, footer: normalized.footer, ...(warnings.length ? { warnings } : {}) },
+  };
+}
+
+async function parseKind(kind: StatementKind, buf: Buffer, opts: ParseOptions): Promise<PipelineResult> {
+  if (kind === "csv") {
+    const { parseCsvStatement } = await import("./csv-parser");
+    const { rowsToNormalized } = await import("./rows-to-normalized");
+
+    // header row discovered past any preamble; column roles resolve signed amounts;
+    // preamble key/values (account, balances, currency, ...) become header meta
+    const csv = parseCsvStatement(buf);
+    const normalized = rowsToNormalized(csv.rows, withAccountType(csv.meta, opts));
+    return { ok: true, kind, normalized, body: { kind, ...normalized } };
+  }
+
+  if (kind === "pdf") {
+    const { parsePdfSmart, looksEncrypted } = await import("./pdf-parser");
+    const { passwordCandidates } = await import("./pdf-passwords");
+    const pdf = await parsePdfSmart(buf, {
+      layout: opts.layout,
+      password: opts.password,
+      // the password config is only read for encrypted files
+      passwordCandidates: looksEncrypted(buf) ? passwordCandidates(opts.profile, opts.passwordHints) : [],
+      ocr: opts.ocr,
+    }); // { text, warnings?, strategy?, layout?, password_error?, ocr? }
+
+    // Encrypted and nothing opened it: a distinct 401 so the client can ask for the password
+    if (pdf.password_error) {
+      return {
+        ok: false,
+        kind,
+        status: 401,
+        error: pdf.password_error === "required" ? "Password required" : "Incorrect password",
+        details: (pdf.warnings ?? []).join(" | "),
+      };
+    }
+
+    if (pdf.text && pdf.text.trim()) {
+      const { parsePdfTextToNormalized, parsePdfLayoutToNormalized } = await import("./pdf-text-parser");
+      // bank profile is auto-selected by fingerprint unless one is forced (same for the account type)
+      const profileOpts = { profile: opts.profile, accountType: opts.accountType };
+      const parsed = pdf.layout
+        ? parsePdfLayoutToNormalized(pdf.text, pdf.layout, profileOpts)
+        : parsePdfTextToNormalized(pdf.text, profileOpts);
+      // OCR'd text: rows read from low-confidence words score lower
+      const normalized = pdf.ocr ? (await import("./ocr")).applyOcrConfidence(parsed, pdf.ocr) : parsed;
+      return {
+        ok: true,
+        kind,
+        normalized,
+        // extracted text goes back too: the review screen shows it next to the transactions
+        body: {
+          kind,
+          strategy: pdf.strategy,
+          ...normalized,
+          text: pdf.text,
+          warnings: pdf.warnings ?? [],
+          ...(pdf.ocr ? { ocr: pdf.ocr } : {}),
+        },
+      };
+    }
+
+    // No text at all — surface parser warnings
+    return { ok: false, kind, status: 422, error: "No extractable text", details: (pdf.warnings ?? []).join(" | ") || "unknown" };
+  }
+
+  if (kind === "xlsx") {
+    const { parseXlsx } = await import("./xlsx-parser");
+    const { rowsToNormalized } = await import("./rows-to-normalized");
+
+    // every sheet with a transaction table; preamble cells feed the header meta
+    const xlsx = await parseXlsx(buf);
+    const normalized = rowsToNormalized(xlsx.rows, withAccountType(xlsx.meta, opts));
+    return { ok: true, kind, normalized, body: { kind, ...normalized, sheets: xlsx.sheets } };
+  }
+
+  if (kind === "ofx") {
+    const { parseOfx } = await import("./ofx-parser");
+    const { rowsToNormalized } = await import("./rows-to-normalized");
+
+    const ofx = parseOfx(buf);
+    const normalized = rowsToNormalized(ofx.rows, withAccountType(ofx.meta, opts));
+    return {
+      ok: true,
+      kind,
+      normalized,
+      body: {
+        kind,
+        ...normalized,
+        period: ofx.period,
+        ...(ofx.available_balance ? { available_balance: ofx.available_balance } : {}),
+      },
+    };
+  }
+
+  if (kind === "mt940" || kind === "camt053") {
+    const { rowsToNormalized } = await import("./rows-to-normalized");
+    const parsed = kind === "mt940"
+      ? (await import("./mt940-parser")).parseMt940(buf)
+      : (await import("./camt053-parser")).parseCamt053(buf);
+
+    const normalized = rowsToNormalized(parsed.rows, withAccountType(parsed.meta, opts));
+    return { ok: true, kind, normalized, body: { kind, ...normalized } };
+  }
+
+  return { ok: false, kind, status: 415, error: "Unsupported file type" };
+}
@@ -0,0 +1,110 @@
+// lib/pdf-layout.ts
+// Rebuild statement tables from positioned pdf.js text items:
+// items → lines (by y) → phrases (by x gap) → column bands from the header row → cells.
+import { ColumnBand, ColumnRole, LayoutItem, LayoutPage, LayoutRow, LayoutTable } from "./types";
+import { detectColumnRoles } from "./column-roles";
+
+type Phrase = { str: string; x0: number; x1: number };
+type Line = { y: number; items: LayoutItem[] };
+
+const NUMERIC_ROLES: ColumnRole[] = ["debit", "credit", "amount", "balance"];
+const RE_NUMERIC = /^[-(]?\s?[$₱€¥£]?\s?\d[\d,]*(\.\d+)?\)?(\s?(CR|DR))?-?$/i;
+
+/** Cluster items into lines: same baseline within half a glyph height. Top of page first. */
+export function groupLines(items: LayoutItem[]): Line[] {
+  const sorted = items.filter(it => it.str.trim()).sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Line[] = [];
+  for (const it of sorted) {
+    const tol = Math.max(2, (it.height || 10) * 0.5);
+    const line = lines.find(l => Math.abs(l.y - it.y) <= tol);
+    if (line) line.items.push(it);
+    else lines.push({ y: it.y, items: [it] });
+  }
+  for (const l of lines) l.items.sort((a, b) => a.x - b.x);
+  return lines;
+}
+
+/** Merge neighbouring items of a line into phrases when the gap is under ~one glyph. */
+export function phrasesOf(line: Line): Phrase[] {
+  const out: Phrase[] = [];
+  for (const it of line.items) {
+    const last = out[out.length - 1];
+    const gap = last ? it.x - last.x1 : Infinity;
+    if (last && gap < Math.max(3, (it.height || 10) * 0.6)) {
+      last.str += (gap > 0.5 ? " " : "") + it.str;
+      last.x1 = Math.max(last.x1, it.x + it.width);
+    } else {
+      out.push({ str: it.str, x0: it.x, x1: it.x + it.width });
+    }
+  }
+  return out.map(p => ({ ...p, str: p.str.replace(/\s+/g, " ").trim() })).filter(p => p.str);
+}
+
+export const lineText = (line: Line) => phrasesOf(line).map(p => p.str).join(" ");
+
+/** Column bands from a header line ("Date", "Description", "Debit", "Credit", "Balance", ...); null if not a header. */
+export function inferColumnBands(line: Line): ColumnBand[] | null {
+  const phrases = phrasesOf(line);
+  const roles = detectColumnRoles(phrases.map(p => p.str));
+  const byRole: Array<[ColumnRole, string | undefined]> = [
+    ["date", roles.date], ["description", roles.description], ["debit", roles.debit],
+    ["credit", roles.credit], ["amount", roles.amount], ["balance", roles.balance],
+  ];
+  const bands: ColumnBand[] = [];
+  for (const [role, label] of byRole) {
+    const p = label !== undefined ? phrases.find(ph => ph.str === label) : undefined;
+    if (p) bands.push({ role, label: p.str, x0: p.x0, x1: p.x1 });
+  }
+  const hasAmount = bands.some(b => b.role !== "balance" && NUMERIC_ROLES.includes(b.role));
+  if (!bands.some(b => b.role === "date") || !hasAmount || bands.length < 3) return null;
+  return bands.sort((a, b) => a.x0 - b.x0);
+}
+
+// Numbers are usually right-aligned under their header: pick the numeric band whose right edge is closest,
+// as long as the phrase sits roughly under it. Everything else is left-aligned text.
+function bandFor(p: Phrase, bands: ColumnBand[]): ColumnBand {
+  if (RE_NUMERIC.test(p.str)) {
+    const numeric = bands
+      .filter(b => NUMERIC_ROLES.includes(b.role) && p.x1 >= b.x0 - 80 && p.x0 <= b.x1 + 30)
+      .sort((a, b) => Math.abs(a.x1 - p.x1) - Math.abs(b.x1 - p.x1));
+    if (numeric.length) return numeric[0];
+  }
+  const text = bands.filter(b => !NUMERIC_ROLES.includes(b.role));
+  const pool = text.length ? text : bands;
+  let pick = pool[0];
+  for (const b of pool) if (b.x0 - 4 <= p.x0) pick = b;
+  return pick;
+}
+
+export function cellsOf(line: Line, bands: ColumnBand[]): LayoutRow["cells"] {
+  const cells: LayoutRow["cells"] = {};
+  for (const p of phrasesOf(line)) {
+    const b = bandFor(p, bands);
+    cells[b.role] = cells[b.role] ? `${cells[b.role]} ${p.str}` : p.str;
+  }
+  return cells;
+}
+
+/**
+ * Find the header row on each page (bands carry over to pages without one) and
+ * turn every line below it into column cells. Lines above the first header are skipped.
+ */
+export function buildLayoutTable(pages: LayoutPage[]): LayoutTable {
+  let bands: ColumnBand[] | null = null;
+  let columns: ColumnBand[] = [];
+  const rows: LayoutRow[] = [];
+  for (const page of pages) {
+    for (const line of groupLines(page.items)) {
+      const header = inferColumnBands(line);
+      if (header) { bands = header; if (!columns.length) columns = header; continue; }
+      if (!bands) continue;
+      rows.push({ page: page.page, y: line.y, cells: cellsOf(line, bands) });
+    }
+  }
+  return { columns, rows };
+}
+
+/** Plain text with one line per visual line (for header/label regexes). */
+export function layoutText(pages: LayoutPage[]): string {
+  return pages.map(p => groupLines(p.items).map(lineText).join("\n")).join("\n");
+}
@@ -3,12 +3,11 @@ import { existsSync } from "fs";
 import { dirname, join, resolve as pathResolve } from "path";
 import { pathToFileURL } from "url";
 import { createRequire } from "module";
+import type { LayoutPage, OcrPage, OcrReport, PdfParseResult } from "./types";
+import { buildLayoutTable, layoutText } from "./pdf-layout";
+import { LOW_OCR_CONFIDENCE, OcrOptions, ocrPageFrom, ocrReportFrom, preprocessPixels, resolveOcrSettings } from "./ocr";
 
-export type PdfParseResult = {
-  text?: string;
-  warnings?: string[];
-  strategy?: "pdf-parse" | "pdfjs-dist" | "ocr";
-};
+export type { PdfParseResult };
 
 /* -------------------- locate pdfjs-dist on disk -------------------- */
 
@@ -71,8 +70,8 @@ async function loadPdfJs(): Promise<any> {
   return api;
 }
 
-/** Build getDocument options (includes standard fonts path) */
-function makePdfJsDocOpts(buf: Buffer) {
+/** Build getDocument options (includes standard fonts path; password for encrypted files) */
+function makePdfJsDocOpts(buf: Buffer, password?: string) {
   const base = resolvePdfjsBaseDir();
   const fontsDir = join(base, "standard_fonts"); // directory containing *.ttf
   const fontsUrl = pathToFileURL(fontsDir + "/").href; // trailing slash is important
@@ -82,9 +81,38 @@ function makePdfJsDocOpts(buf: Buffer) {
     isEvalSupported: false,
     useWorkerFetch: false,
     standardFontDataUrl: fontsUrl,
+    ...(password ? { password } : {}),
   };
 }
 
+/* -------------------- encrypted PDFs -------------------- */
+
+// Only files with an /Encrypt dictionary pay for the extra pdf.js open
+export function looksEncrypted(buf: Buffer): boolean {
+  return buf.includes("/Encrypt");
+}
+
+/**
+ * Open the document with no password, then each candidate in order. pdf.js rejects with a
+ * PasswordException (code 1 = needed, 2 = incorrect) until one fits; other errors are left to the strategies.
+ */
+async function unlockPdf(buf: Buffer, candidates: string[]): Promise<{ ok: true; password?: string } | { ok: false }> {
+  const PDF = await loadPdfJs();
+  for (const password of [undefined, ...candidates]) {
+    // copy: pdf.js may transfer (detach) the buffer it is given
+    const task = PDF.getDocument(makePdfJsDocOpts(Buffer.from(buf), password));
+    try {
+      const doc = await task.promise;
+      await doc.destroy();
+      return { ok: true, password };
+    } catch (e: any) {
+      await task.destroy?.();
+      if (e?.name !== "PasswordException") return { ok: true, password };
+    }
+  }
+  return { ok: false };
+}
+
 /* -------------------- extractors -------------------- */
 
 async function extractWithPdfParse(buf: Buffer): Promise<string> {
@@ -95,9 +123,9 @@ async function extractWithPdfParse(buf: Buffer): Promise<string> {
   return String(data?.text ?? "").trim();
 }
 
-async function extractWithPdfJs(buf: Buffer): Promise<string> {
+async function extractWithPdfJs(buf: Buffer, password?: string): Promise<string> {
   const PDF = await loadPdfJs();
-  const task = PDF.getDocument(makePdfJsDocOpts(buf));
+  const task = PDF.getDocument(makePdfJsDocOpts(buf, password));
   const doc = await task.promise;
   let out = "";
   for (let i = 1; i <= doc.numPages; i++) {
@@ -109,9 +137,37 @@ async function extractWithPdfJs(buf: Buffer): Promise<string> {
   return out.trim();
 }
 
-/** OCR: render pages (pdf.js → node-canvas) → tesseract */
-async function ocrWithTesseract(buf: Buffer): Promise<string> {
+/** Layout mode: keep each text item's position (transform e/f = x/y) instead of flattening */
+async function extractLayoutWithPdfJs(buf: Buffer, password?: string): Promise<LayoutPage[]> {
+  const PDF = await loadPdfJs();
+  const task = PDF.getDocument(makePdfJsDocOpts(buf, password));
+  const doc = await task.promise;
+  const pages: LayoutPage[] = [];
+  try {
+    for (let i = 1; i <= doc.numPages; i++) {
+      const page = await doc.getPage(i);
+      const content = await page.getTextContent().catch(() => ({ items: [] as any[] }));
+      const items = (content.items as any[])
+        .filter((it: any) => "str" in it && Array.isArray(it.transform))
+        .map((it: any) => ({
+          str: String(it.str),
+          x: Number(it.transform[4]) || 0,
+          y: Number(it.transform[5]) || 0,
+          width: Number(it.width) || 0,
+          height: Number(it.height) || Math.abs(Number(it.transform[3])) || 0,
+        }));
+      pages.push({ page: i, items });
+    }
+  } finally {
+    await doc.destroy();
+  }
+  return pages;
+}
+
+/** OCR: render pages (pdf.js → node-canvas) → preprocess (lib/ocr.ts) → tesseract, keeping page/word confidences */
+async function ocrWithTesseract(buf: Buffer, password?: string, opts: OcrOptions = {}): Promise<{ text: string; report: OcrReport }> {
   const PDF = await loadPdfJs();
+  const settings = resolveOcrSettings(opts);   // throws on a missing language pack before anything renders
 
   // Robust import for node-canvas across CJS/ESM builds
   const CanvasMod: any = await import("canvas");
@@ -123,64 +179,125 @@ async function ocrWithTesseract(buf: Buffer): Promise<string> {
     );
   }
 
+  // Languages load when the worker starts (v6 API); langPath points at the local language packs
+  const lang = settings.languages.join("+");
   const Tesseract: any = await import("tesseract.js");
-  const worker: any = await Tesseract.createWorker?.();
+  const worker: any = await Tesseract.createWorker?.(lang, 1, settings.langPath ? { langPath: settings.langPath, gzip: settings.gzip } : {});
   if (!worker) throw new Error("tesseract.js createWorker() unavailable.");
 
   if (typeof worker.loadLanguage === "function" && typeof worker.initialize === "function") {
-    await worker.loadLanguage("eng"); await worker.initialize("eng");   // v5 API
-  } else if (typeof worker.reinitialize === "function") {
-    await worker.reinitialize("eng");                                   // v6 API
+    await worker.loadLanguage(lang); await worker.initialize(lang);   // v5 API
   }
+  await worker.setParameters?.({ user_defined_dpi: String(Math.round(72 * settings.scale)) });
 
-  const task = PDF.getDocument(makePdfJsDocOpts(buf));
+  const task = PDF.getDocument(makePdfJsDocOpts(buf, password));
   const doc = await task.promise;
 
   let text = "";
+  const pages: OcrPage[] = [];
   try {
-    const SCALE = 3.0; // higher DPI improves OCR
     for (let i = 1; i <= doc.numPages; i++) {
       const page = await doc.getPage(i);
-      const vp = page.getViewport({ scale: SCALE });
-      const canvas = createCanvas(Math.ceil(vp.width), Math.ceil(vp.height));
+      const vp = page.getViewport({ scale: settings.scale }); // higher DPI improves OCR
+      let canvas = createCanvas(Math.ceil(vp.width), Math.ceil(vp.height));
       const ctx = canvas.getContext("2d") as any;
 
       const renderTask = page.render({ canvasContext: ctx, viewport: vp, intent: "print" });
       await renderTask.promise;
 
-      // Optional: simple binarization to help OCR on faint scans
-      // const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      // // ... preprocess here if needed ...
-      // ctx.putImageData(imgData, 0, 0);
+      // grayscale + adaptive threshold in place, then rotate by the measured skew
+      let skew = 0;
+      if (settings.preprocess) {
+        const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        skew = preprocessPixels(imgData).skew;
+        ctx.putImageData(imgData, 0, 0);
+        if (skew) canvas = rotateCanvas(createCanvas, canvas, -skew);
+      }
+      // the letterhead repeats on every page; page 1 keeps it (account, period, balances)
+      if (settings.cropHeader && i > 1) canvas = cropCanvasTop(createCanvas, canvas, settings.cropHeader);
 
       const png = canvas.toBuffer("image/png");
-      const res = await worker.recognize(png);
+      const res = await worker.recognize(png, {}, { text: true, blocks: true });
       text += (res?.data?.text || "") + "\n";
+      pages.push(ocrPageFrom(i, res?.data, skew));
     }
   } finally {
     await doc.destroy();
     await worker.terminate?.();
   }
-  return text.trim();
+  return { text: text.trim(), report: ocrReportFrom(settings.languages, pages) };
+}
+
+// White background so the corners uncovered by the rotation don't read as ink
+function rotateCanvas(createCanvas: any, src: any, degrees: number): any {
+  const out = createCanvas(src.width, src.height);
+  const ctx = out.getContext("2d");
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, out.width, out.height);
+  ctx.translate(out.width / 2, out.height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.drawImage(src, -src.width / 2, -src.height / 2);
+  return out;
+}
+
+function cropCanvasTop(createCanvas: any, src: any, fraction: number): any {
+  const top = Math.round(src.height * fraction);
+  const out = createCanvas(src.width, src.height - top);
+  out.getContext("2d").drawImage(src, 0, -top);
+  return out;
 }
 
 /* -------------------- main entry -------------------- */
 
-export async function parsePdfSmart(buf: Buffer): Promise<PdfParseResult> {
+export type PdfParseOptions = {
+  layout?: boolean;
+  password?: string;              // uploaded with the file
+  passwordCandidates?: string[];  // configured candidates (lib/pdf-passwords.ts), tried after `password`
+  ocr?: OcrOptions;               // languages, preprocessing, header crop (env defaults, see lib/ocr.ts)
+};
+
+export async function parsePdfSmart(buf: Buffer, opts: PdfParseOptions = {}): Promise<PdfParseResult> {
   const warnings: string[] = [];
 
+  // Encrypted: find the password before any strategy runs. pdf-parse can't decrypt,
+  // so when one is needed only the pdf.js strategies (layout, text, OCR) get it.
+  let password: string | undefined;
+  if (looksEncrypted(buf)) {
+    const candidates = [opts.password ?? "", ...(opts.passwordCandidates ?? [])].filter(Boolean);
+    const unlocked = await unlockPdf(buf, [...new Set(candidates)]);
+    if (!unlocked.ok) {
+      warnings.push(opts.password ? "PDF is encrypted and the password did not open it." : "PDF is encrypted; a password is required.");
+      return { warnings, password_error: opts.password ? "incorrect" : "required" };
+    }
+    password = unlocked.password;
+  }
+
+  // 0) pdf.js layout mode (opt-in): column cells from text coordinates
+  if (opts.layout) {
+    try {
+      const pages = await extractLayoutWithPdfJs(buf, password);
+      const layout = buildLayoutTable(pages);
+      if (layout.rows.length) return { text: layoutText(pages), layout, warnings, strategy: "pdfjs-layout" };
+      warnings.push("Layout mode found no table header; falling back to text extraction.");
+    } catch (e: any) {
+      warnings.push(`pdfjs-dist layout failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
   // 1) pdf-parse
-  try {
-    const t = await extractWithPdfParse(buf);
-    if (t && t.replace(/\s+/g, "").length >= 50) return { text: t, warnings, strategy: "pdf-parse" };
-    warnings.push("Low text from pdf-parse; trying pdfjs-dist.");
-  } catch (e: any) {
-    warnings.push(`pdf-parse failed: ${e?.message ?? String(e)}`);
+  if (!password) {
+    try {
+      const t = await extractWithPdfParse(buf);
+      if (t && t.replace(/\s+/g, "").length >= 50) return { text: t, warnings, strategy: "pdf-parse" };
+      warnings.push("Low text from pdf-parse; trying pdfjs-dist.");
+    } catch (e: any) {
+      warnings.push(`pdf-parse failed: ${e?.message ?? String(e)}`);
+    }
   }
 
   // 2) pdf.js text
   try {
-    const t = await extractWithPdfJs(buf);
+    const t = await extractWithPdfJs(buf, password);
     if (t && t.replace(/\s+/g, "").length >= 50) return { text: t, warnings, strategy: "pdfjs-dist" };
     warnings.push("Low text from pdfjs-dist; trying OCR.");
   } catch (e: any) {
@@ -189,9 +306,12 @@ export async function parsePdfSmart(buf: Buffer): Promise<PdfParseResult> {
 
   // 3) OCR
   try {
-    const t = await ocrWithTesseract(buf);
-    if (t) warnings.push("OCR used (tesseract.js).");
-    return { text: t, warnings, strategy: "ocr" };
+    const { text: t, report } = await ocrWithTesseract(buf, password, opts.ocr);
+    if (t) warnings.push(`OCR used (tesseract.js, ${report.languages.join("+")}).`);
+    for (const p of report.pages) {
+      if (p.confidence < LOW_OCR_CONFIDENCE) warnings.push(`Low OCR confidence on page ${p.page} (${p.confidence}).`);
+    }
+    return { text: t, warnings, strategy: "ocr", ocr: report };
   } catch (e: any) {
     warnings.push(`OCR failed: ${e?.message ?? String(e)}`);
     throw new Error(warnings.join(" | "));
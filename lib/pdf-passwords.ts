@@ -0,0 +1,109 @@
+// lib/pdf-passwords.ts
+// Candidate passwords for encrypted PDF statements, from a local (gitignored) config file.
+// Banks usually derive the password from the holder's details, so entries may be patterns
+// filled from form fields sent with the upload.
+import { existsSync, readFileSync } from "fs";
+import { extname, resolve as pathResolve } from "path";
+import { parse as parseYaml } from "yaml";
+
+/** Profile id (lib/bank-profiles.ts) → passwords / patterns; "*" applies to every profile. */
+export type PasswordConfig = Record<string, string[]>;
+
+/** Holder details the patterns draw on (form fields `account_number`, `birthdate`, `last_name`). */
+export type PasswordHints = Partial<{
+  account_number: string;   // digits only
+  birthdate: string;        // YYYY-MM-DD
+  last_name: string;
+}>;
+
+// ===== Loading =====
+function candidatePaths(path?: string): string[] {
+  if (path) return [path];
+  if (process.env.BANK2JE_PDF_PASSWORDS) return [process.env.BANK2JE_PDF_PASSWORDS];
+  return ["config/pdf-passwords.json", "config/pdf-passwords.yaml", "config/pdf-passwords.yml"];
+}
+
+/** Load BANK2JE_PDF_PASSWORDS (or config/pdf-passwords.{json,yaml,yml}); no file → no candidates. */
+export function loadPasswordConfig(path?: string): PasswordConfig {
+  for (const p of candidatePaths(path)) {
+    const full = pathResolve(process.cwd(), p);
+    if (!existsSync(full)) continue;
+    const text = readFileSync(full, "utf8");
+    const ext = extname(full).toLowerCase();
+    let raw: unknown;
+    try { raw = ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text); }
+    catch (e: any) { throw new Error(`PDF password config ${p}: ${e?.message ?? String(e)}`); }
+    const config: PasswordConfig = {};
+    for (const [id, list] of Object.entries((raw ?? {}) as Record<string, unknown>)) {
+      const items = Array.isArray(list) ? list : [list];
+      config[id.toLowerCase()] = items.filter((v): v is string => typeof v === "string" && v !== "");
+    }
+    return config;
+  }
+  return {};
+}
+
+// ===== Hints =====
+/** Holder details from the upload form; `error` explains a bad value. */
+export function passwordHintsFromForm(form: FormData): { hints?: PasswordHints; error?: string } {
+  const field = (name: string) => {
+    const v = form.get(name);
+    return typeof v === "string" ? v.trim() : "";
+  };
+  const hints: PasswordHints = {};
+  const account = field("account_number").replace(/[\s-]/g, "");
+  if (account && !/^\d+$/.test(account)) return { error: "account_number must contain digits only" };
+  if (account) hints.account_number = account;
+  const birthdate = field("birthdate");
+  if (birthdate && !/^\d{4}-\d{2}-\d{2}$/.test(birthdate)) return { error: `birthdate must be YYYY-MM-DD, got "${birthdate}"` };
+  if (birthdate) hints.birthdate = birthdate;
+  const lastName = field("last_name");
+  if (lastName) hints.last_name = lastName;
+  return { hints };
+}
+
+// ===== Patterns =====
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const RE_PLACEHOLDER = /\{([a-z_]+?)(\d*)(?::([^}]*))?\}/g;
+
+// "DDMMYYYY", "MMDDYY", "DDMON", ... from an ISO date
+function formatDate(iso: string, format: string): string {
+  const [y, m, d] = iso.split("-");
+  return format.replace(/YYYY|YY|MON|MM|DD/g, tok =>
+    tok === "YYYY" ? y : tok === "YY" ? y.slice(2) : tok === "MON" ? MONTHS[Number(m) - 1] : tok === "MM" ? m : d);
+}
+
+function caseOf(v: string, mode?: string): string {
+  if (mode === "upper") return v.toUpperCase();
+  if (mode === "lower") return v.toLowerCase();
+  return v;
+}
+
+/**
+ * Fill `{account_number}`, `{account_lastN}`, `{birthdate:DDMMYYYY}` and `{last_name[:upper|lower]}`;
+ * null when a placeholder has no hint (or is unknown), so the pattern is skipped.
+ */
+export function expandPassword(pattern: string, hints: PasswordHints = {}): string | null {
+  let missing = false;
+  const out = pattern.replace(RE_PLACEHOLDER, (_all, name: string, n: string, arg?: string) => {
+    let v: string | undefined;
+    if (name === "account_number" && !n) v = hints.account_number;
+    else if (name === "account_last" && n) v = hints.account_number?.slice(-Number(n));
+    else if (name === "birthdate" && !n) v = hints.birthdate ? formatDate(hints.birthdate, arg || "YYYYMMDD") : undefined;
+    else if (name === "last_name" && !n) v = hints.last_name ? caseOf(hints.last_name.replace(/\s+/g, ""), arg) : undefined;
+    if (v === undefined) missing = true;
+    return v ?? "";
+  });
+  return missing || !out ? null : out;
+}
+
+/**
+ * Candidate passwords for an encrypted PDF. The text can't be fingerprinted before it is
+ * decrypted, so a forced profile contributes its own list (plus "*") and otherwise every list is tried.
+ */
+export function passwordCandidates(profileId?: string, hints: PasswordHints = {}, config = loadPasswordConfig()): string[] {
+  const id = profileId?.toLowerCase();
+  const lists = id ? [config[id] ?? [], config["*"] ?? []] : Object.values(config);
+  const filled = lists.flat().map(p => expandPassword(p, hints));
+  return [...new Set(filled.filter((p): p is string => !!p))];
+}
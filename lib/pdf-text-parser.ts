@@ -1,29 +1,68 @@
 // lib/pdf-text-parser.ts
-import { NormalizedStatement, NormalizedTxn } from "./types";
+import { AccountType, ColumnRole, DateResolution, LayoutTable, NormalizedStatement, NormalizedTxn } from "./types";
 import {
   cleanBankName,
   cleanIdentifier,
   toISODate,
   normalizeAmount,
   normalizeCurrency,
+  equalsMoney,
+  negateAmount,
+  sumAmounts,
   rowPointFrom,
   headerPointFrom,
   footerStatsFrom,
 } from "./normalize";
+import { balanceChainFooter } from "./balance-chain";
+import { reconciliationFooter } from "./reconcile";
+import { detectAccountType, hasDrCrMarker, holderAmounts } from "./account-type";
+import { BankProfile, ProfileMatch, selectBankProfile } from "./bank-profiles";
+import { NumberFormat, inferNumberFormat } from "./amount-parser";
+import { looksLikeDate, resolveStatementDates } from "./date-resolver";
 
-// Header field patterns
-const RE_ACC_NUM   = /Account\s*Number:\s*([^\n\r]+)/i;
 const RE_CUSTOMER  = /Customer:\s*([^\n\r]+)/i; // reserved for later
-const RE_STMT_DATE = /Statement\s*Date:\s*([^\n\r]+)/i;
-const RE_OPENING   = /Opening\s*Balance:\s*([^\n\r]+)/i;
-const RE_CLOSING   = /Closing\s*Balance:\s*([^\n\r]+)/i;
-const RE_CURRENCY  = /Currency:\s*([A-Za-z]{3}|[$₱€¥£])/i;
-
-// Transaction row patterns (1=date, 2=desc, 3=amount)
-const ROW_PATTERNS: RegExp[] = [
-  /^(\d{4}-\d{2}-\d{2})\s+(.+?)\s+([-(]?\s?[$₱€¥£]?\s?[0-9,]*\.?[0-9]+[\)]?)\s*$/,            // YYYY-MM-DD
-  /^(\d{1,2}[\/-]\d{1,2}[\/-]\d{2,4})\s+(.+?)\s+([-(]?\s?[$₱€¥£]?\s?[0-9,]*\.?[0-9]+[\)]?)\s*$/ // MM/DD/YYYY or DD/MM/YYYY
-];
+
+function firstMatch(src: string, patterns: RegExp[]): RegExpMatchArray | null {
+  for (const re of patterns) { const m = src.match(re); if (m) return m; }
+  return null;
+}
+
+// Number-looking words of the statement (dates excluded) → the document's number format
+function documentNumberFormat(src: string): NumberFormat {
+  const words = src.split(/\s+/).map(w => w.replace(/^[-+(]+|[)\-]+$/g, ""));
+  return inferNumberFormat(words.filter(w => /^\d[\d.,']*\d$/.test(w) && !/^\d{1,4}[.\/-]\d{1,2}[.\/-]\d{1,4}$/.test(w)));
+}
+
+// --- Wrapped-description helpers ---
+// A non-row line continues the previous transaction's description unless it is
+// page furniture, a total/balance line, the table header, a header label, or a dated line.
+const MAX_CONTINUATION_LINES = 3;
+const RE_PAGE_FURNITURE = /^(page\s*\d+(\s*(of|\/)\s*\d+)?|\d+\s*(of|\/)\s*\d+|.*\bcontinued\b.*|.*\bstatement\s+of\s+account\b.*)$/i;
+const RE_SUBTOTAL = /\b(sub-?total|totals?|balance\s+(brought|carried)\s+forward|(opening|closing|beginning|ending)\s+balance)\b/i;
+const RE_LEADING_DATE = /^(\d{4}-\d{2}-\d{2}|\d{1,2}[\/-]\d{1,2}([\/-]\d{2,4})?|\d{1,2}\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*|(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{1,2})\b/i;
+const RE_AMOUNT_ONLY = /^[-+(]?\s?[$₱€¥£]?\s?[0-9,.']*[0-9]\)?(-|\s?(CR|DR))?$/i;
+const RE_MONEY_MARK = /[.,]\d{1,3}\)?(-|\s?(CR|DR))?$|^[-+(]|[$₱€¥£]|(CR|DR)$|-$/i;   // decimals, sign or currency
+const TABLE_LABELS = ["date", "description", "details", "particulars", "amount", "debit", "credit", "withdrawal", "deposit", "balance"];
+
+// A lone amount (total, carried balance) ends the wrapped lines; a bare digit run such as
+// "0012345678" is a reference number and continues the description
+function isAmountOnly(line: string): boolean {
+  return RE_AMOUNT_ONLY.test(line) && RE_MONEY_MARK.test(line);
+}
+
+// A repeated column header: two or more column labels and no digits ("BALANCE TRANSFER REF 123" is not one)
+function isTableHeaderLine(line: string): boolean {
+  if (/\d/.test(line)) return false;
+  const s = line.toLowerCase();
+  return TABLE_LABELS.filter(l => new RegExp(`\\b${l}s?\\b`).test(s)).length >= 2;
+}
+
+function endsContinuation(line: string, profile: BankProfile): boolean {
+  if (RE_PAGE_FURNITURE.test(line) || RE_SUBTOTAL.test(line)) return true;
+  if (RE_LEADING_DATE.test(line) || isAmountOnly(line)) return true;
+  if (isTableHeaderLine(line)) return true;
+  return Object.values(profile.header).some(res => res.some(re => re.test(line)));
+}
 
 // --- Bank-name inference helpers ---
 function looksLikeTableHeader(line: string): boolean {
@@ -49,17 +88,30 @@ function inferBankNameFromTop(text: string): string {
   return "unknown";
 }
 
-export function parsePdfTextToNormalized(text: string): NormalizedStatement {
-  const src = (text ?? "").replace(/\r/g, "");
+type HeaderFields = {
+  bank: string;
+  bank_account: string;
+  customer_account_number: string;
+  statement_date: string;         // final once resolveRowDates has read it with the document's date order
+  statementDateRaw: string;       // as printed; "03/04/2025" waits for the rows to decide DMY/MDY
+  opening_balance: string;
+  closing_balance: string;
+  currency: string;               // ISO or "unknown"
+  account_type: AccountType;      // explicit → bank profile → detected from the text → deposit
+  openingPrinted: boolean;        // statement actually printed an opening balance
+  closingPrinted: boolean;
+  numberFormat: NumberFormat;     // decimal/grouping separators used throughout the document
+};
 
-  // --- Header extraction ---
-  const bankRaw   = inferBankNameFromTop(src);
-  const accMatch  = src.match(RE_ACC_NUM);
+function extractHeaderFields(src: string, profile: BankProfile, accountType?: AccountType): HeaderFields {
+  const bankRaw   = profile.bank ? cleanBankName(profile.bank) : inferBankNameFromTop(src);
+  const accMatch  = firstMatch(src, profile.header.account_number);
   const /* custMatch */ _custMatch = src.match(RE_CUSTOMER);
-  const stmtMatch = src.match(RE_STMT_DATE);
-  const openMatch = src.match(RE_OPENING);
-  const closeMatch= src.match(RE_CLOSING);
-  const currMatch = src.match(RE_CURRENCY);
+  const stmtMatch = firstMatch(src, profile.header.statement_date);
+  const openMatch = firstMatch(src, profile.header.opening_balance);
+  const closeMatch= firstMatch(src, profile.header.closing_balance);
+  const currMatch = firstMatch(src, profile.header.currency);
+  const numberFormat = documentNumberFormat(src);
 
   const bank = bankRaw || "unknown";
 
@@ -67,20 +119,165 @@ export function parsePdfTextToNormalized(text: string): NormalizedStatement {
   const bank_account = cleanIdentifier(accountStr || "unknown");
   const customer_account_number = cleanIdentifier(accountStr || "unknown");
 
-  // Statement date: explicit or inferred from top lines
-  let statement_date = toISODate(stmtMatch?.[1] ?? "unknown");
+  // Statement date: explicit or inferred from top lines. Kept raw too, so the order the rows
+  // prove (resolveRowDates) decides "03/04/2025"; the profile order is only a provisional reading
+  let statementDateRaw = (stmtMatch?.[1] ?? "").trim();
+  let statement_date = toISODate(statementDateRaw || "unknown", profile.date_order);
   if (statement_date === "unknown") {
     const top = src.split(/\r?\n/).slice(0, 20);
     const foundDates = top
       .map(l => l.match(/\b(\d{4}-\d{2}-\d{2}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}|[A-Za-z]{3,9}\s+\d{1,2},\s*\d{4})\b/)?.[0])
       .filter(Boolean) as string[];
-    const iso = foundDates.map(toISODate).filter(d => d !== "unknown");
-    if (iso.length) statement_date = iso.sort().slice(-1)[0];
+    const latest = foundDates
+      .map(raw => ({ raw, iso: toISODate(raw, profile.date_order) }))
+      .filter(d => d.iso !== "unknown")
+      .sort((a, b) => a.iso.localeCompare(b.iso))
+      .slice(-1)[0];
+    if (latest) ({ raw: statementDateRaw, iso: statement_date } = latest);
+  }
+
+  const currExplicit     = normalizeCurrency(currMatch?.[1] ?? "");
+  const currency         = currExplicit !== "unknown" ? currExplicit : normalizeCurrency(profile.currency ?? "");
+  const opening_balance  = normalizeAmount(openMatch?.[1] ?? "0", numberFormat, currency);
+  const closing_balance  = normalizeAmount(closeMatch?.[1] ?? "0", numberFormat, currency);
+  const account_type     = accountType ?? profile.account_type ?? detectAccountType(src) ?? "deposit";
+
+  return {
+    bank, bank_account, customer_account_number, statement_date, statementDateRaw, opening_balance, closing_balance, currency,
+    account_type, openingPrinted: !!openMatch, closingPrinted: !!closeMatch, numberFormat,
+  };
+}
+
+// Debit/credit columns print unsigned amounts: take the sign from the balance movement
+function signFromBalance(amount: string, running_balance: string, prevBalance: string): string {
+  const delta = sumAmounts([running_balance, negateAmount(prevBalance)]);
+  return equalsMoney(delta.replace(/^-/, ""), amount.replace(/^-/, "")) ? delta : amount;
+}
+
+// Card / loan statements: amounts from the holder's side once all rows are read (see holderAmounts)
+function applyAccountSigns(txns: NormalizedTxn[], marked: boolean[], fields: HeaderFields) {
+  const amounts = holderAmounts(
+    fields.account_type,
+    txns.map((t, i) => ({ amount: t.amount, marked: marked[i] })),
+    fields.openingPrinted && fields.closingPrinted ? fields : undefined
+  );
+  txns.forEach((t, i) => { t.amount = amounts[i]; });
+}
+
+// Rows carry raw dates until the whole table is read: one DMY/MDY order for the rows and the
+// printed statement date, whose year then anchors short row dates
+function resolveRowDates(txns: NormalizedTxn[], fields: HeaderFields, profile: BankProfile): DateResolution {
+  const { dates, statement_date, report } = resolveStatementDates(txns.map(t => t.date), {
+    statementDate: fields.statementDateRaw || undefined,
+    order: profile.date_order,
+  });
+  if (statement_date !== "unknown") fields.statement_date = statement_date;
+  txns.forEach((t, i) => { t.date = dates[i]; t.row_point = rowPointFrom(t); });
+  return report;
+}
+
+function assemble(fields: HeaderFields, txns: NormalizedTxn[], dates: DateResolution): NormalizedStatement {
+  // --- Header (with row_point) ---
+  const { openingPrinted, closingPrinted, numberFormat: _fmt, statementDateRaw: _raw, ...h } = fields;
+  const headerTmp = {
+    ...h,
+    currency: h.currency !== "unknown" ? h.currency : (txns[0]?.currency ?? "unknown"),
+  };
+  const header = { ...headerTmp, row_point: headerPointFrom(headerTmp) };
+
+  // --- Footer (num_transactions, total_amount_parsed, balanced, doc_point, balance_chain?, reconciliation?) ---
+  const chain = balanceChainFooter(txns, openingPrinted ? h.opening_balance : undefined, h.account_type);
+  const footer = {
+    ...footerStatsFrom(header, txns),
+    ...chain,
+    // only against printed balances, not the "0" defaults
+    ...(openingPrinted && closingPrinted ? reconciliationFooter(header, txns, chain.balance_chain) : {}),
+    date_resolution: dates,
+  };
+
+  return { header, transactions: txns, footer };
+}
+
+// ===== Shared row loop =====
+// One transaction as read from a text line or a layout row, before sign conventions apply
+type ReadRow = {
+  date: string;              // raw; resolved once all rows are read
+  description: string;
+  amount: string;            // as printed, at the currency's minor units
+  currency: string;
+  running_balance?: string;
+  split: boolean;            // debit/credit columns: signed already, profile sign convention skipped
+  marked: boolean;           // CR/DR marker or debit/credit column: sign already from the holder's side
+  source: string;
+};
+// A line that may continue the open row's description; null ends the open row
+type ReadLine = { row: ReadRow } | { text: string; source: string } | null;
+
+/**
+ * Rows → statement: wrapped lines merge into the open row (up to MAX_CONTINUATION_LINES),
+ * the profile's sign convention applies to single amount columns, running balances carry
+ * over, then account signs, dates and the header/footer are resolved.
+ */
+function readStatement(
+  items: ReadLine[],
+  fields: HeaderFields,
+  profile: BankProfile
+): { statement: NormalizedStatement; continuation_merges: number } {
+  const txns: NormalizedTxn[] = [];
+  const marked: boolean[] = [];
+  let prevBalance: string | undefined = fields.openingPrinted ? fields.opening_balance : undefined;
+  let open: { txn: NormalizedTxn; lines: number } | null = null;   // row still accepting wrapped lines
+  let continuation_merges = 0;
+  for (const item of items) {
+    if (!item || !("row" in item)) {
+      if (item && open && open.lines < MAX_CONTINUATION_LINES && !endsContinuation(item.text, profile)) {
+        const prev = open.txn.description;
+        open.txn.description = prev === "unknown" ? item.text : `${prev} ${item.text}`;
+        open.txn.source = `${open.txn.source}\n${item.source}`;
+        open.lines++;
+        continuation_merges++;
+      } else {
+        open = null;
+      }
+      continue;
+    }
+
+    const { date, description, currency, running_balance, split, source } = item.row;
+    let amount = item.row.amount;
+    if (!split && profile.sign === "inverted") amount = negateAmount(amount);
+    if (!split && profile.sign === "from-balance" && running_balance !== undefined && prevBalance !== undefined) {
+      amount = signFromBalance(amount, running_balance, prevBalance);
+    }
+    if (running_balance !== undefined) prevBalance = running_balance;
+    else if (prevBalance !== undefined) prevBalance = sumAmounts([prevBalance, amount]);
+
+    const row: NormalizedTxn = {
+      date, description, amount, currency,
+      row_point: rowPointFrom({ date, description, amount, currency }),
+      ...(running_balance !== undefined ? { running_balance } : {}),
+      source,
+    };
+    txns.push(row);
+    marked.push(item.row.marked);
+    open = { txn: row, lines: 0 };
   }
+  applyAccountSigns(txns, marked, fields);
+  const dates = resolveRowDates(txns, fields, profile);
+  return { statement: assemble(fields, txns, dates), continuation_merges };
+}
 
-  const opening_balance  = normalizeAmount(openMatch?.[1] ?? "0");
-  const closing_balance  = normalizeAmount(closeMatch?.[1] ?? "0");
-  const headerCurrency   = normalizeCurrency(currMatch?.[1] ?? "");
+/**
+ * Parse extracted statement text using the best-matching bank profile
+ * (or `opts.profile` when given); the generic rules are the fallback.
+ * Wrapped description lines are appended to the preceding row and counted in `continuation_merges`.
+ */
+export function parsePdfTextToNormalized(
+  text: string,
+  opts: { profile?: string; accountType?: AccountType } = {}
+): NormalizedStatement & { profile: ProfileMatch; continuation_merges: number } {
+  const src = (text ?? "").replace(/\r/g, "");
+  const { profile, match } = selectBankProfile(src, opts.profile);
+  const fields = extractHeaderFields(src, profile, opts.accountType);
 
   // --- Transactions ---
   const lines = src
@@ -88,45 +285,89 @@ export function parsePdfTextToNormalized(text: string): NormalizedStatement {
     .map(s => s.replace(/\t+/g, " ").replace(/\s{2,}/g, " ").trim())
     .filter(Boolean);
 
-  const txns: NormalizedTxn[] = [];
-  for (const line of lines) {
+  const items = lines.map((line): ReadLine => {
     let m: RegExpExecArray | null = null;
-    for (const pat of ROW_PATTERNS) { m = pat.exec(line); if (m) break; }
-    if (!m) continue;
+    for (const pat of profile.rows) { m = pat.exec(line); if (m) break; }
+    if (!m) return { text: line, source: line };
 
     const dRaw   = m[1] ?? "";
     const descRaw= m[2] ?? "";
     const amtRaw = m[3] ?? "";
+    const balRaw = m[4];
 
-    const date = toISODate(dRaw);
-    const description = descRaw.replace(/\s{2,}/g, " ").trim() || "unknown";
-    const amount = normalizeAmount(amtRaw);
-
-    // Currency precedence: txn -> header -> unknown
+    // Currency precedence: txn -> header -> unknown; amounts at that currency's minor units
     const txnCur = normalizeCurrency(amtRaw);
-    const currency = txnCur || headerCurrency || "unknown";
-
-    const row: NormalizedTxn = {
-      date, description, amount, currency,
-      row_point: rowPointFrom({ date, description, amount, currency }),
+    const currency = txnCur !== "unknown" ? txnCur : fields.currency;
+    return {
+      row: {
+        date: dRaw.trim(),
+        description: descRaw.replace(/\s{2,}/g, " ").trim() || "unknown",
+        amount: normalizeAmount(amtRaw, fields.numberFormat, currency),
+        currency,
+        running_balance: balRaw ? normalizeAmount(balRaw, fields.numberFormat, currency) : undefined,
+        split: false,
+        marked: hasDrCrMarker(amtRaw),
+        source: line,
+      },
     };
-    txns.push(row);
-  }
+  });
+  const { statement, continuation_merges } = readStatement(items, fields, profile);
 
-  // --- Header (with row_point) ---
-  const headerTmp = {
-    bank,
-    bank_account,
-    customer_account_number,
-    statement_date,
-    opening_balance,
-    closing_balance,
-    currency: headerCurrency || (txns[0]?.currency ?? "unknown"),
-  };
-  const header = { ...headerTmp, row_point: headerPointFrom(headerTmp) };
+  return { ...statement, profile: match, continuation_merges };
+}
+
+/**
+ * Layout-mode counterpart: transactions come from column cells (date / description /
+ * debit / credit / amount / balance) instead of regex positions. Header fields still
+ * come from the reconstructed text via the bank profile. Rows with only a description
+ * continue the previous transaction.
+ */
+export function parsePdfLayoutToNormalized(
+  text: string,
+  layout: LayoutTable,
+  opts: { profile?: string; accountType?: AccountType } = {}
+): NormalizedStatement & { profile: ProfileMatch; continuation_merges: number; columns: ColumnRole[] } {
+  const src = (text ?? "").replace(/\r/g, "");
+  const { profile, match } = selectBankProfile(src, opts.profile);
+  const fields = extractHeaderFields(src, profile, opts.accountType);
 
-  // --- Footer (num_transactions, total_amount_parsed, balanced, doc_point) ---
-  const footer = footerStatsFrom(header, txns);
+  const items = layout.rows.map(({ cells }): ReadLine => {
+    const desc = (cells.description ?? "").trim();
+    const hasMoney = !!(cells.amount || cells.debit || cells.credit);
+    const date = (cells.date ?? "").trim();
+    const source = Object.values(cells).filter(Boolean).join(" | ");
 
-  return { header, transactions: txns, footer };
+    if (!looksLikeDate(date) || !hasMoney) {
+      const line = [cells.date, desc].filter(Boolean).join(" ");
+      return !hasMoney && line ? { text: line, source } : null;
+    }
+
+    // credit − debit when split; single amount column as printed (profile sign convention applies)
+    const txnCur = normalizeCurrency(cells.amount ?? cells.debit ?? cells.credit ?? "");
+    const currency = txnCur !== "unknown" ? txnCur : fields.currency;
+    const money = (raw: string) => normalizeAmount(raw, fields.numberFormat, currency);
+    const amount = cells.amount
+      ? money(cells.amount)
+      : sumAmounts([money(cells.credit ?? "0").replace(/^-/, ""), negateAmount(money(cells.debit ?? "0").replace(/^-/, ""))], currency);
+    return {
+      row: {
+        date,
+        description: desc || "unknown",
+        amount,
+        currency,
+        running_balance: cells.balance ? money(cells.balance) : undefined,
+        split: !cells.amount,
+        marked: !cells.amount || hasDrCrMarker(cells.amount),
+        source,
+      },
+    };
+  });
+  const { statement, continuation_merges } = readStatement(items, fields, profile);
+
+  return {
+    ...statement,
+    profile: match,
+    continuation_merges,
+    columns: layout.columns.map(c => c.role),
+  };
 }
@@ -0,0 +1,111 @@
+// lib/preamble.ts
+// Spreadsheet-style statements (CSV/XLSX) put "Key, Value" lines above the table:
+// find the table header row and lift those key/value cells into header Meta.
+import type { Meta } from "./rows-to-normalized";
+import { detectColumnRoles, numberCellText } from "./column-roles";
+import { exactAmount } from "./normalize";
+import { detectAccountType, normalizeAccountType } from "./account-type";
+import type { NumberFormat } from "./amount-parser";
+
+export type Cell = string | number;
+
+const KEYS: Array<[keyof Meta, RegExp]> = [
+  ["opening_balance", /\b((opening|beginning|starting|previous)\s*(ledger\s*)?balance|balance\s*(brought\s*)?forward|balance\s*b\/?f)\b/i],
+  ["closing_balance", /\b((closing|ending|current|new)\s*(ledger\s*)?balance|balance\s*carried\s*forward|balance\s*c\/?f)\b/i],
+  ["customer_account_number", /\b(customer|client)\s*(number|no\.?|id|#)|\bcif\b/i],
+  ["bank_account", /\b(account|acct\.?)\s*(number|no\.?|#)?\s*$|\bcard\s*(number|no\.?|#)\s*$|\biban\b/i],   // not "Account Name/Type"
+  ["statement_date", /\b(statement\s*date|as\s*of|period\s*(end(ing)?|to)|end\s*date|date\s*to|statement\s*period|period(\s*covered)?)\b/i],
+  ["currency", /^(currency|ccy|curr\.?)(\s*code)?$/i],
+  ["bank", /^(bank(\s*name)?|institution|financial\s*institution)$/i],
+  ["account_type", /^(account\s*type|product(\s*type)?)$/i],
+];
+
+const text = (c: Cell | undefined) => String(c ?? "").trim();
+
+// "07/01/2025 - 07/31/2025" / "Jul 1 to Jul 31, 2025" → the end of the period
+function periodEnd(v: string): string {
+  const parts = v.split(/\s+(?:-|–|to|through)\s+/i);
+  return parts[parts.length - 1].trim();
+}
+
+/** Key/value pairs from preamble rows: "Key, Value", "Key:, Value" or a single "Key: Value" cell. */
+export function keyValuePairs(rows: Cell[][]): Array<{ key: string; value: string; cell: Cell }> {
+  const out: Array<{ key: string; value: string; cell: Cell }> = [];
+  for (const row of rows) {
+    const cells = row.filter(c => text(c) !== "");
+    if (!cells.length) continue;
+    if (cells.length === 1) {
+      const m = /^([^:]{2,40}):\s*(.+)$/.exec(text(cells[0]));
+      if (m) out.push({ key: m[1].trim(), value: m[2].trim(), cell: m[2].trim() });
+      continue;
+    }
+    const rest = cells.slice(1);
+    out.push({ key: text(cells[0]).replace(/:\s*$/, "").trim(), value: rest.map(text).join(" "), cell: rest[0] });
+  }
+  return out;
+}
+
+/**
+ * Map preamble key/value cells onto Meta; the first value found for a field wins.
+ * Balances are normalized here with the document's number format (native numbers as-is),
+ * so rowsToNormalized always receives dot-decimal amounts at their printed precision.
+ */
+export function metaFromPreamble(rows: Cell[][], fmt?: NumberFormat): Meta {
+  const meta: Meta = {};
+  for (const { key, value, cell } of keyValuePairs(rows)) {
+    const hit = KEYS.find(([, re]) => re.test(key));
+    if (!hit || !value) continue;
+    const [field] = hit;
+    if (meta[field] !== undefined) continue;
+    if (field === "opening_balance" || field === "closing_balance") {
+      meta[field] = typeof cell === "number" ? exactAmount(numberCellText(cell)) : exactAmount(value, fmt);
+    } else if (field === "account_type") {
+      const type = normalizeAccountType(value) ?? detectAccountType(value);
+      if (type) meta.account_type = type;
+    } else {
+      meta[field] = field === "statement_date" ? periodEnd(value) : value;
+    }
+  }
+  // card / loan wording anywhere above the table ("Credit Limit", "Minimum Payment Due", ...)
+  if (!meta.account_type) {
+    const type = detectAccountType(rows.map(r => r.map(text).join(" ")).join("\n"));
+    if (type) meta.account_type = type;
+  }
+  // a lone title line naming the bank ("BDO Unibank, Inc.")
+  if (!meta.bank) {
+    const title = rows.map(r => r.map(text).filter(Boolean)).find(c => c.length === 1 && /bank/i.test(c[0]) && !c[0].includes(":"));
+    if (title) meta.bank = title[0];
+  }
+  return meta;
+}
+
+/** Raw text of preamble balance values (for number-format inference). */
+export function preambleAmounts(rows: Cell[][]): string[] {
+  const balanceKeys = KEYS.filter(([f]) => f === "opening_balance" || f === "closing_balance").map(([, re]) => re);
+  return keyValuePairs(rows)
+    .filter(kv => typeof kv.cell === "string" && balanceKeys.some(re => re.test(kv.key)))
+    .map(kv => kv.value);
+}
+
+/** Index of the table header row (has a date column and an amount-bearing column), or -1. */
+export function findHeaderRow(rows: Cell[][], maxScan = 60): number {
+  for (let i = 0; i < Math.min(rows.length, maxScan); i++) {
+    const cells = rows[i].map(text);
+    if (cells.filter(Boolean).length < 3) continue;
+    const roles = detectColumnRoles(cells);
+    if (roles.date && roles.mode !== "none") return i;
+  }
+  return -1;
+}
+
+/** Merge per-sheet/per-section meta: earliest wins, except the closing balance and statement date (latest wins). */
+export function mergeMeta(parts: Meta[]): Meta {
+  const out: Meta = {};
+  for (const m of parts) {
+    for (const [k, v] of Object.entries(m) as Array<[keyof Meta, string | undefined]>) {
+      if (v === undefined || v === "") continue;
+      if (k === "closing_balance" || k === "statement_date" || out[k] === undefined) Object.assign(out, { [k]: v });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,203 @@
+// lib/reconcile.ts
+// Reconciliation diagnostics: when opening + transactions != closing, compute the gap and rank
+// the usual causes (flipped sign, duplicated rows, OCR digit errors, missing rows or pages).
+// All arithmetic is bigint minor units; no fs/crypto so the review screen can run it too.
+import { BalanceChainReport, NormalizedAmount, NormalizedTxn, ReconcileSuggestion, ReconciliationReport } from "./types";
+import { decimalsOf, formatMoney, minorUnits, parseMoney, rescale } from "./money";
+import { isLiabilityAccount } from "./normalize";
+
+type Header = { opening_balance: NormalizedAmount; closing_balance: NormalizedAmount; currency?: string; account_type?: string };
+
+const ZERO = BigInt(0);
+const TWO = BigInt(2);
+const abs = (x: bigint) => (x < ZERO ? -x : x);
+
+const MAX_SUGGESTIONS = 10;
+const MAX_SUBSET = 3;            // duplicated copies combined to explain the gap
+const MAX_SUBSET_ROWS = 60;      // keeps the subset search small on long statements
+const MISSING_PAGE_DAYS = 7;     // a quiet stretch this long hints at a skipped page
+
+// Digits OCR commonly confuses in statement fonts
+const OCR_CONFUSIONS: Record<string, string> = {
+  "0": "689", "1": "47", "2": "7", "3": "58", "4": "19", "5": "368", "6": "058", "7": "12", "8": "0356", "9": "04",
+};
+
+function differingPositions(a: string, b: string): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) out.push(i);
+  return out;
+}
+function isTransposition(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  const d = differingPositions(a, b);
+  return d.length === 2 && d[1] === d[0] + 1 && a[d[0]] === b[d[1]] && a[d[1]] === b[d[0]];
+}
+function isOcrMisread(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  const d = differingPositions(a, b);
+  return d.length === 1 && (OCR_CONFUSIONS[a[d[0]]] ?? "").includes(b[d[0]]);
+}
+
+const dayNumber = (iso: string) => {
+  const t = Date.parse(`${iso}T00:00:00Z`);
+  return Number.isNaN(t) ? null : Math.round(t / 86400000);
+};
+const dupKey = (t: NormalizedTxn) => `${t.date}|${t.amount}|${(t.description ?? "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()}`;
+
+type Ctx = {
+  txns: NormalizedTxn[]; rows: bigint[]; gap: bigint; chain?: BalanceChainReport;
+  owed: boolean; minor: (a: string) => bigint; fmt: (m: bigint) => string;
+};
+
+// Flipping row i changes the sum by -2a, so it balances when 2a == -gap
+function signFlips({ rows, gap, fmt }: Ctx): ReconcileSuggestion[] {
+  const hits = rows.map((a, i) => (a * TWO === -gap && a !== ZERO ? i : -1)).filter(i => i >= 0);
+  return hits.map(i => ({
+    kind: "sign_flip" as const,
+    confidence: hits.length === 1 ? 0.9 : 0.6,
+    rows: [i],
+    amount: fmt(-rows[i]),
+    message: `Row ${i + 1} (${fmt(rows[i])}) may have the wrong sign; ${fmt(-rows[i])} balances the statement`,
+  }));
+}
+
+// Extra copies inflate the sum: dropping them balances it when they add up to -gap
+function duplicatedRows({ txns, rows, gap, fmt }: Ctx): ReconcileSuggestion[] {
+  const out: ReconcileSuggestion[] = [];
+  const firstSeen = new Map<string, number>();
+  const copies: number[] = [];                     // later copies of an identical (date, amount, description) row
+  txns.forEach((t, i) => {
+    const k = dupKey(t);
+    if (firstSeen.has(k)) copies.push(i);
+    else firstSeen.set(k, i);
+  });
+
+  const pick = copies.slice(0, MAX_SUBSET_ROWS);
+  const found: number[] = [];
+  const search = (start: number, total: bigint): boolean => {
+    if (found.length && total === -gap) return true;
+    if (found.length >= MAX_SUBSET) return false;
+    for (let j = start; j < pick.length; j++) {
+      found.push(pick[j]);
+      if (search(j + 1, total + rows[pick[j]])) return true;
+      found.pop();
+    }
+    return false;
+  };
+  if (search(0, ZERO)) {
+    out.push({
+      kind: "duplicate_rows",
+      confidence: found.length === 1 ? 0.85 : 0.7,
+      rows: [...found],
+      message: `Row(s) ${found.map(i => i + 1).join(", ")} repeat an earlier identical row; dropping them (total ${fmt(-gap)}) balances the statement`,
+    });
+    return out;
+  }
+
+  // no identical twin: a single row worth exactly the overcount may still be an extra (re-read or pending item)
+  rows.forEach((a, i) => {
+    if (a !== -gap) return;
+    const sibling = rows.findIndex((b, j) => j !== i && b === a);
+    out.push({
+      kind: "duplicate_rows",
+      confidence: sibling >= 0 ? 0.5 : 0.35,
+      rows: sibling >= 0 ? [i, sibling] : [i],
+      message: sibling >= 0
+        ? `Row ${i + 1} has the same amount as row ${sibling + 1}; dropping it (${fmt(a)}) balances the statement, so one may be a duplicate`
+        : `Dropping row ${i + 1} (${fmt(a)}) balances the statement; it may be counted twice or not belong to this statement`,
+    });
+  });
+  return out;
+}
+
+// A misread row balances the statement when its true amount is a + gap
+function digitErrors({ rows, gap, fmt }: Ctx): ReconcileSuggestion[] {
+  const out: ReconcileSuggestion[] = [];
+  rows.forEach((a, i) => {
+    const fixed = a + gap;
+    if (a === ZERO || fixed === ZERO || (a < ZERO) !== (fixed < ZERO)) return;
+    const was = abs(a).toString();
+    const now = abs(fixed).toString();
+    if (isTransposition(was, now)) {
+      out.push({
+        kind: "digit_swap", confidence: 0.7, rows: [i], amount: fmt(fixed),
+        message: `Row ${i + 1} reads ${fmt(a)}; swapping two adjacent digits gives ${fmt(fixed)}, which balances the statement`,
+      });
+    } else if (isOcrMisread(was, now)) {
+      out.push({
+        kind: "digit_swap", confidence: 0.6, rows: [i], amount: fmt(fixed),
+        message: `Row ${i + 1} reads ${fmt(a)}; one commonly misread digit gives ${fmt(fixed)}, which balances the statement`,
+      });
+    }
+  });
+  return out;
+}
+
+// Rows never read add up to +gap; the running balance or a quiet stretch of dates says where
+function missingRows({ txns, rows, gap, chain, owed, minor, fmt }: Ctx): ReconcileSuggestion[] {
+  const brk = chain?.first_break;
+  if (brk) {
+    const diff = owed ? -minor(brk.difference) : minor(brk.difference);   // owed balances move against the amounts
+    const around = chain?.order === "descending" ? [brk.index, brk.index + 1] : [brk.index - 1, brk.index];
+    return [{
+      kind: "missing_rows",
+      confidence: diff === gap ? 0.75 : 0.5,
+      rows: around.filter(i => i >= 0 && i < rows.length),
+      amount: fmt(diff),
+      message: `The running balance breaks at row ${brk.index + 1} by ${brk.difference}; a row may be missing just before it`,
+    }];
+  }
+
+  let widest = { days: 0, at: -1 };
+  for (let i = 1; i < txns.length; i++) {
+    const a = dayNumber(txns[i - 1].date);
+    const b = dayNumber(txns[i].date);
+    if (a === null || b === null) continue;
+    const days = Math.abs(b - a);
+    if (days > widest.days) widest = { days, at: i };
+  }
+  if (widest.days >= MISSING_PAGE_DAYS) {
+    const i = widest.at;
+    return [{
+      kind: "missing_rows",
+      confidence: 0.4,
+      rows: [i - 1, i],
+      amount: fmt(gap),
+      message: `No transactions between ${txns[i - 1].date} and ${txns[i].date} (${widest.days} days); a page or rows totalling ${fmt(gap)} may be missing there`,
+    }];
+  }
+  return [{
+    kind: "missing_rows",
+    confidence: 0.25,
+    rows: [],
+    amount: fmt(gap),
+    message: `One or more rows totalling ${fmt(gap)} may be missing`,
+  }];
+}
+
+/** Gap and ranked suggestions, or null when the statement balances. */
+export function analyzeReconciliation(header: Header, txns: NormalizedTxn[], chain?: BalanceChainReport): ReconciliationReport | null {
+  const amounts = [header.opening_balance, header.closing_balance, ...txns.map(t => t.amount)];
+  const scale = Math.max(minorUnits(header.currency), ...amounts.map(decimalsOf));
+  const minor = (a: string) => rescale(parseMoney(a || "0"), scale).minor;
+  const fmt = (m: bigint) => formatMoney({ minor: m, scale });
+
+  // cards/loans: opening − sum = closing, i.e. the negated balances reconcile like a deposit account
+  const owed = isLiabilityAccount(header.account_type);
+  const balance = (a: string) => (owed ? -minor(a) : minor(a));
+  const rows = txns.map(t => minor(t.amount));
+  const sum = rows.reduce((s, a) => s + a, ZERO);
+  const gap = balance(header.closing_balance) - balance(header.opening_balance) - sum;
+  if (gap === ZERO) return null;
+
+  const ctx: Ctx = { txns, rows, gap, chain, owed, minor, fmt };
+  const suggestions = [...signFlips(ctx), ...duplicatedRows(ctx), ...digitErrors(ctx), ...missingRows(ctx)]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_SUGGESTIONS);
+  return { discrepancy: fmt(gap), suggestions };
+}
+
+export function reconciliationFooter(header: Header, txns: NormalizedTxn[], chain?: BalanceChainReport): { reconciliation?: ReconciliationReport } {
+  const report = analyzeReconciliation(header, txns, chain);
+  return report ? { reconciliation: report } : {};
+}
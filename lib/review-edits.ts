@@ -0,0 +1,119 @@
+// lib/review-edits.ts
+// Reviewer corrections on a normalized statement: each edit is normalized like parser output,
+// then row_point / header.row_point / footer stats are recomputed. Pure, so the review screen runs it client-side.
+import { NormalizedHeader, NormalizedStatement, NormalizedTxn } from "./types";
+import {
+  cleanBankName, cleanIdentifier, footerStatsFrom, headerPointFrom, normalizeAmount, normalizeCurrency,
+  rowPointFrom, sumAmounts, toISODate,
+} from "./normalize";
+import { balanceChainFooter } from "./balance-chain";
+import { reconciliationFooter } from "./reconcile";
+import { normalizeAccountType } from "./account-type";
+
+export type TxnField = "date" | "description" | "amount" | "currency";
+export type HeaderField = Exclude<keyof NormalizedHeader, "row_point">;
+
+// The rate looked up for the old date/amount/currency doesn't hold after an edit; re-run FX to refill
+function withoutFx(t: NormalizedTxn): NormalizedTxn {
+  const { functional_amount: _a, fx_rate: _r, fx_rate_date: _d, ...rest } = t;
+  return rest;
+}
+
+function editTxn(t: NormalizedTxn, field: TxnField, raw: string): NormalizedTxn {
+  const v = (raw ?? "").trim();
+  // a hand-corrected date/description/amount no longer rests on the OCR'd words
+  const { ocr, ...rest } = field === "description" ? t : withoutFx(t);
+  const next: NormalizedTxn = field === "currency" && ocr ? { ...rest, ocr } : rest;
+  if (field === "date") next.date = toISODate(v);
+  if (field === "description") next.description = v.replace(/\s+/g, " ") || "unknown";
+  if (field === "amount") next.amount = normalizeAmount(v, undefined, t.currency);
+  if (field === "currency") {
+    next.currency = normalizeCurrency(v);
+    next.amount = normalizeAmount(t.amount, undefined, next.currency);   // re-round to the new minor units
+  }
+  return { ...next, row_point: rowPointFrom(next) };
+}
+
+function editHeader(h: NormalizedHeader, field: HeaderField, raw: string): NormalizedHeader {
+  const v = (raw ?? "").trim();
+  const next = { ...h };
+  if (field === "bank") next.bank = cleanBankName(v);
+  if (field === "bank_account" || field === "customer_account_number") next[field] = cleanIdentifier(v);
+  if (field === "statement_date") next.statement_date = toISODate(v);
+  if (field === "account_type") next.account_type = normalizeAccountType(v) ?? h.account_type;
+  if (field === "opening_balance" || field === "closing_balance") next[field] = normalizeAmount(v, undefined, h.currency);
+  if (field === "currency") {
+    next.currency = normalizeCurrency(v);
+    next.opening_balance = normalizeAmount(h.opening_balance, undefined, next.currency);
+    next.closing_balance = normalizeAmount(h.closing_balance, undefined, next.currency);
+  }
+  return next;
+}
+
+/** row_point, header.row_point and footer stats (doc_point, balanced, balance chain, reconciliation, OCR rows, FX totals) from the current header + rows. */
+export function rescoreStatement(stmt: NormalizedStatement): NormalizedStatement {
+  const { row_point: _prev, ...h } = stmt.header;
+  const header: NormalizedHeader = { ...h, row_point: headerPointFrom(h) };
+  const txns = stmt.transactions.map(t => ({ ...t, row_point: rowPointFrom(t) }));
+  const { balance_chain: _chain, reconciliation: _rec, ocr, fx, ...footer } = stmt.footer;
+  // the printed opening balance seeds the chain; a "0.00" placeholder would break its first row
+  const opening = Number(header.opening_balance) !== 0 ? header.opening_balance : undefined;
+  const chain = balanceChainFooter(txns, opening, header.account_type);
+  // no balances at all (both "0.00") → nothing to reconcile against
+  const hasBalances = Number(header.opening_balance) !== 0 || Number(header.closing_balance) !== 0;
+  const low_confidence_rows = txns.flatMap((t, i) => (t.ocr?.low_confidence_words.length ? [i] : []));
+  const missing_rates = txns.flatMap((t, i) => (t.functional_amount === undefined ? [i] : []));
+  const functional = txns.flatMap(t => (t.functional_amount !== undefined ? [t.functional_amount] : []));
+  return {
+    header,
+    transactions: txns,
+    footer: {
+      ...footer,
+      ...footerStatsFrom(header, txns),
+      ...chain,
+      ...(hasBalances ? reconciliationFooter(header, txns, chain.balance_chain) : {}),
+      ...(ocr ? { ocr: { ...ocr, low_confidence_rows } } : {}),
+      ...(fx ? {
+        fx: {
+          ...fx,
+          converted: txns.length - missing_rates.length,
+          missing_rates,
+          total_functional: sumAmounts(functional, fx.functional_currency),
+        },
+      } : {}),
+    },
+  };
+}
+
+export function applyTxnEdit(stmt: NormalizedStatement, index: number, field: TxnField, raw: string): NormalizedStatement {
+  const transactions = stmt.transactions.map((t, i) => (i === index ? editTxn(t, field, raw) : t));
+  return rescoreStatement({ ...stmt, transactions });
+}
+
+export function applyHeaderEdit(stmt: NormalizedStatement, field: HeaderField, raw: string): NormalizedStatement {
+  // rows in "unknown" currency were converted from the header currency
+  const transactions = field === "currency"
+    ? stmt.transactions.map(t => (t.currency === "unknown" ? withoutFx(t) : t))
+    : stmt.transactions;
+  return rescoreStatement({ ...stmt, header: editHeader(stmt.header, field, raw), transactions });
+}
+
+const isText = (v: unknown) => typeof v === "string";
+const HEADER_TEXT: HeaderField[] = [
+  "bank", "bank_account", "customer_account_number", "statement_date", "opening_balance", "closing_balance", "currency",
+];
+
+/**
+ * A corrected statement sent back by a client: shape-checked, then every score recomputed here
+ * (client-supplied row_point / doc_point / balanced are never trusted).
+ */
+export function reviewedStatement(input: unknown): { statement?: NormalizedStatement; error?: string } {
+  const s = input as Partial<NormalizedStatement> | null;
+  if (!s?.header || !Array.isArray(s.transactions)) return { error: "expected { statement: { header, transactions, footer } }" };
+  const badHeader = HEADER_TEXT.find(f => !isText(s.header![f]));
+  if (badHeader) return { error: `header.${badHeader} must be a string` };
+  if (!normalizeAccountType(s.header.account_type)) return { error: "header.account_type must be deposit, credit_card or loan" };
+  const badRow = s.transactions.findIndex(t => !t || !(["date", "description", "amount", "currency"] as const).every(f => isText(t[f])));
+  if (badRow >= 0) return { error: `transactions[${badRow}] needs string date, description, amount and currency` };
+  return { statement: rescoreStatement({ header: s.header, transactions: s.transactions, footer: { ...(s.footer ?? {}), doc_point: "0" } }) };
+}
@@ -1,15 +1,20 @@
 // lib/rows-to-normalized.ts
-import { NormalizedStatement, NormalizedTxn } from "./types";
+import { AccountType, NormalizedStatement, NormalizedTxn } from "./types";
 import {
   cleanBankName,
   cleanIdentifier,
-  toISODate,
   normalizeAmount,
+  exactAmount,
   normalizeCurrency,
   headerPointFrom,
   rowPointFrom,
   footerStatsFrom,
 } from "./normalize";
+import { balanceChainFooter } from "./balance-chain";
+import { reconciliationFooter } from "./reconcile";
+import { hasDrCrMarker, holderAmounts } from "./account-type";
+import { inferNumberFormat } from "./amount-parser";
+import { resolveStatementDates } from "./date-resolver";
 
 // Exported so route.ts can type the mapper
 export type InRow = {
@@ -17,9 +22,13 @@ export type InRow = {
   description?: string;
   amount?: string;
   currency?: string;
+  fitid?: string;   // bank-assigned transaction id (OFX FITID etc.), kept for duplicate detection
+  running_balance?: string;
+  source?: string;  // raw source row, shown next to the transaction in the review screen
+  marked?: boolean; // sign already from the holder's side: debit/credit or DR/CR indicator column, OFX/MT940/camt.053
 };
 
-type Meta = Partial<{
+export type Meta = Partial<{
   bank: string;
   bank_account: string;
   customer_account_number: string;
@@ -27,8 +36,12 @@ type Meta = Partial<{
   opening_balance: string;
   closing_balance: string;
   currency: string; // header currency default (ISO or symbol)
+  account_type: AccountType; // explicit or detected by the importer; default deposit
 }>;
 
+// What structured importers (OFX, MT940, camt.053, ...) hand to rowsToNormalized
+export type ParsedRows = { rows: InRow[]; meta: Meta };
+
 function majorityIsoCurrency(rows: NormalizedTxn[]): string {
   const counts = new Map<string, number>();
   for (const r of rows) {
@@ -41,25 +54,40 @@ function majorityIsoCurrency(rows: NormalizedTxn[]): string {
 
 /**
  * Convert loose rows + optional header meta into the normalized statement shape:
- * - Header: scrubbed identifiers, ISO dates, 2-decimal amounts, header row_point
+ * - Header: scrubbed identifiers, ISO dates, amounts at the currency's minor units, header row_point
  * - Transactions: per-row normalization + row_point
- * - Footer: { num_transactions, total_amount_parsed, balanced, doc_point }
+ * - Footer: { num_transactions, total_amount_parsed, balanced, doc_point, balance_chain? }
  * - Currency precedence (row): txn → header → "unknown"
  */
 export function rowsToNormalized(rows: InRow[], meta?: Meta): NormalizedStatement {
-  // 1) Normalize each transaction row independently (first pass)
-  let txns: NormalizedTxn[] = (rows ?? []).map((r) => {
-    const date = toISODate(r.date ?? "unknown");
+  // 0) One number format for the statement (raw "1.234,56" rows vote comma-decimal)
+  const fmt = inferNumberFormat([
+    ...(rows ?? []).flatMap(r => [r.amount, r.running_balance]),
+    meta?.opening_balance,
+    meta?.closing_balance,
+  ]);
+
+  // 0b) One DMY/MDY reading for all dates; short dates take the statement-period year
+  const resolved = resolveStatementDates((rows ?? []).map(r => r.date), { statementDate: meta?.statement_date });
+  const rawDates = (rows ?? []).some(r => r.date && !/^\d{4}-\d{2}-\d{2}$/.test(r.date.trim()));
+
+  // 1) Normalize each transaction row independently (first pass; amounts keep printed precision)
+  let txns: NormalizedTxn[] = (rows ?? []).map((r, i) => {
+    const date = resolved.dates[i];
     const description = (r.description ?? "").trim() || "unknown";
-    const amount = normalizeAmount(r.amount ?? "0");
+    const amount = exactAmount(r.amount ?? "0", fmt);
     const txnCur = normalizeCurrency(r.currency ?? "");
     const currency = txnCur || "unknown";
+    const balRaw = (r.running_balance ?? "").toString().trim();
     return {
       date,
       description,
       amount,
       currency,
       row_point: rowPointFrom({ date, description, amount, currency }),
+      ...(r.fitid ? { fitid: r.fitid } : {}),
+      ...(r.source ? { source: r.source } : {}),
+      ...(balRaw ? { running_balance: exactAmount(balRaw, fmt) } : {}),
     };
   });
 
@@ -67,23 +95,38 @@ export function rowsToNormalized(rows: InRow[], meta?: Meta): NormalizedStatemen
   const bank = cleanBankName(meta?.bank ?? "unknown");
   const bank_account = cleanIdentifier(meta?.bank_account ?? "unknown");
   const customer_account_number = cleanIdentifier(meta?.customer_account_number ?? bank_account ?? "unknown");
-  const statement_date = toISODate(meta?.statement_date ?? "unknown");
-  const opening_balance = normalizeAmount(meta?.opening_balance ?? "0");
-  const closing_balance = normalizeAmount(meta?.closing_balance ?? "0");
+  const statement_date = resolved.statement_date;
 
   // 3) Header currency default
   const headerCurrencyExplicit = normalizeCurrency(meta?.currency ?? "");
-  const headerCurrencyInferred = majorityIsoCurrency(txns);
-  const headerCurrency = headerCurrencyExplicit || headerCurrencyInferred || "unknown";
+  const headerCurrency = headerCurrencyExplicit !== "unknown" ? headerCurrencyExplicit : majorityIsoCurrency(txns);
+  const opening_balance = normalizeAmount(meta?.opening_balance ?? "0", fmt, headerCurrency);
+  const closing_balance = normalizeAmount(meta?.closing_balance ?? "0", fmt, headerCurrency);
 
-  // 4) Apply currency precedence per row: txn → header → unknown (recompute row_point if changed)
+  // 4) Apply currency precedence per row: txn → header → unknown, then round amounts
+  //    to that currency's minor units (JPY 0, BHD 3, ...) and score the final row
   txns = txns.map((t) => {
-    if (!/^[A-Z]{3}$/.test(t.currency)) {
-      const cur = /^[A-Z]{3}$/.test(headerCurrency) ? headerCurrency : "unknown";
-      const updated = { ...t, currency: cur };
-      return { ...updated, row_point: rowPointFrom(updated) };
-    }
-    return t;
+    const currency = /^[A-Z]{3}$/.test(t.currency) ? t.currency : /^[A-Z]{3}$/.test(headerCurrency) ? headerCurrency : "unknown";
+    const updated = {
+      ...t,
+      currency,
+      amount: normalizeAmount(t.amount, undefined, currency),
+      ...(t.running_balance !== undefined ? { running_balance: normalizeAmount(t.running_balance, undefined, currency) } : {}),
+    };
+    return { ...updated, row_point: rowPointFrom(updated) };
+  });
+
+  // 4b) Card / loan statements: amounts from the holder's side (charges negative), see holderAmounts
+  const account_type = meta?.account_type ?? "deposit";
+  const amounts = holderAmounts(
+    account_type,
+    txns.map((t, i) => ({ amount: t.amount, marked: !!rows[i].marked || hasDrCrMarker(rows[i].amount) })),
+    meta?.opening_balance && meta?.closing_balance ? { opening_balance, closing_balance, currency: headerCurrency } : undefined
+  );
+  txns = txns.map((t, i) => {
+    if (amounts[i] === t.amount) return t;
+    const updated = { ...t, amount: amounts[i] };
+    return { ...updated, row_point: rowPointFrom(updated) };
   });
 
   // 5) Build header with row_point
@@ -95,11 +138,21 @@ export function rowsToNormalized(rows: InRow[], meta?: Meta): NormalizedStatemen
     opening_balance,
     closing_balance,
     currency: headerCurrency,
+    account_type,
   };
   const header = { ...headerTmp, row_point: headerPointFrom(headerTmp) };
 
   // 6) Footer stats (num_transactions, total_amount_parsed, balanced, doc_point)
-  const footer = footerStatsFrom(header, txns);
+  //    + per-row running-balance chain when the source printed balances
+  //    + reconciliation suggestions when it does not balance (only against balances the source printed,
+  //      not the "0" defaults)
+  const chain = balanceChainFooter(txns, meta?.opening_balance ? opening_balance : undefined, account_type);
+  const footer = {
+    ...footerStatsFrom(header, txns),
+    ...chain,
+    ...(meta?.opening_balance && meta?.closing_balance ? reconciliationFooter(header, txns, chain.balance_chain) : {}),
+    ...(rawDates ? { date_resolution: resolved.report } : {}),
+  };
 
   return { header, transactions: txns, footer };
 }
@@ -0,0 +1,172 @@
+// lib/statement-store.ts
+// Parse history: every converted statement with its source hash, warnings and strategy,
+// behind a small interface so another backend (SQLite, S3, ...) can replace the on-disk default.
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, unlink, writeFile } from "fs/promises";
+import { join, resolve as pathResolve } from "path";
+import { NormalizedStatement } from "./types";
+import { cleanBankName, cleanIdentifier } from "./normalize";
+
+export type StoredStatement = {
+  id: string;
+  file_hash: string;          // sha256 of the uploaded bytes
+  file_name?: string;
+  kind: string;
+  strategy?: string;          // PDF extraction strategy
+  warnings: string[];
+  statement: NormalizedStatement;
+  original_statement?: NormalizedStatement;   // the parse as first stored, kept once corrections arrive
+  edits?: StatementEdit[];    // one entry per saved correction or re-parse, oldest first
+  created_at: string;         // ISO timestamps
+  updated_at: string;
+};
+
+export type StatementEdit = {
+  at: string;                 // ISO timestamp
+  header_fields: string[];    // header fields whose value changed
+  rows: number[];             // transaction indexes changed, added or removed
+  reparse?: boolean;          // the same file uploaded again replaced the corrected statement
+};
+
+export type StatementSummary = Omit<StoredStatement, "statement" | "original_statement" | "edits"> & {
+  bank: string;
+  bank_account: string;
+  statement_date: string;
+  num_transactions: number;
+  balanced: boolean;
+  doc_point: string;
+};
+
+export type StatementFilter = {
+  bank?: string;
+  account?: string;
+  from?: string;              // statement_date >= from (YYYY-MM-DD)
+  to?: string;                // statement_date <= to
+};
+
+export interface StatementStore {
+  save(input: Omit<StoredStatement, "id" | "created_at" | "updated_at">): Promise<StoredStatement>;
+  get(id: string): Promise<StoredStatement | null>;
+  update(id: string, statement: NormalizedStatement): Promise<StoredStatement | null>;   // reviewer corrections (logged in `edits`)
+  list(filter?: StatementFilter): Promise<StatementSummary[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+export function fileHashOf(buf: Buffer): string {
+  return createHash("sha256").update(buf).digest("hex");
+}
+
+/** Record id for a file hash; the duplicate index (lib/duplicates.ts) uses the same id. */
+export const statementIdFromHash = (fileHash: string) => fileHash.slice(0, 16);
+
+const TXN_FIELDS = ["date", "description", "amount", "currency"] as const;
+
+/** What a correction changed: header fields and transaction indexes (rows added/removed count too). */
+export function diffStatements(before: NormalizedStatement, after: NormalizedStatement, at: string): StatementEdit {
+  const fields = new Set([...Object.keys(before.header), ...Object.keys(after.header)]);
+  fields.delete("row_point");
+  const header_fields = [...fields].filter(f =>
+    (before.header as Record<string, unknown>)[f] !== (after.header as Record<string, unknown>)[f]);
+  const rows: number[] = [];
+  for (let i = 0; i < Math.max(before.transactions.length, after.transactions.length); i++) {
+    const a = before.transactions[i], b = after.transactions[i];
+    if (!a || !b || TXN_FIELDS.some(f => a[f] !== b[f])) rows.push(i);
+  }
+  return { at, header_fields, rows };
+}
+
+export function summarize(rec: StoredStatement): StatementSummary {
+  const { statement, original_statement: _original, edits: _edits, ...meta } = rec;
+  const footer = statement.footer as { balanced?: boolean; num_transactions?: number; doc_point: string };
+  return {
+    ...meta,
+    bank: statement.header.bank,
+    bank_account: statement.header.bank_account,
+    statement_date: statement.header.statement_date,
+    num_transactions: footer.num_transactions ?? statement.transactions.length,
+    balanced: !!footer.balanced,
+    doc_point: footer.doc_point,
+  };
+}
+
+export function matchesFilter(s: StatementSummary, f: StatementFilter): boolean {
+  if (f.bank && s.bank.toLowerCase() !== cleanBankName(f.bank).toLowerCase()) return false;
+  if (f.account && s.bank_account !== cleanIdentifier(f.account)) return false;
+  if (f.from && !(s.statement_date >= f.from)) return false;
+  if (f.to && !(s.statement_date <= f.to)) return false;
+  return true;
+}
+
+const SAFE_ID = /^[a-f0-9]{16,64}$/;
+
+/**
+ * Default store: one JSON file per statement under `dir`. The id is derived from the
+ * file hash, so uploading the same file again updates its record instead of adding one.
+ */
+export function createFileStatementStore(dir: string): StatementStore {
+  const root = pathResolve(process.cwd(), dir);
+  const pathOf = (id: string) => join(root, `${id}.json`);
+
+  async function get(id: string): Promise<StoredStatement | null> {
+    if (!SAFE_ID.test(id)) return null;
+    try { return JSON.parse(await readFile(pathOf(id), "utf8")); }
+    catch { return null; }
+  }
+
+  return {
+    async save(input) {
+      const id = statementIdFromHash(input.file_hash);
+      const now = new Date().toISOString();
+      const prev = await get(id);
+      // a corrected statement keeps its audit trail: the re-parse is logged like any other change
+      const trail = prev?.edits?.length
+        ? {
+            original_statement: prev.original_statement ?? prev.statement,
+            edits: [...prev.edits, { ...diffStatements(prev.statement, input.statement, now), reparse: true }],
+          }
+        : {};
+      const rec: StoredStatement = { id, ...input, ...trail, created_at: prev?.created_at ?? now, updated_at: now };
+      await mkdir(root, { recursive: true });
+      await writeFile(pathOf(id), JSON.stringify(rec, null, 2));
+      return rec;
+    },
+    get,
+    async update(id, statement) {
+      const prev = await get(id);
+      if (!prev) return null;
+      const now = new Date().toISOString();
+      // audit trail: the first parse is kept and every correction is logged
+      const rec: StoredStatement = {
+        ...prev,
+        statement,
+        original_statement: prev.original_statement ?? prev.statement,
+        edits: [...(prev.edits ?? []), diffStatements(prev.statement, statement, now)],
+        updated_at: now,
+      };
+      await writeFile(pathOf(id), JSON.stringify(rec, null, 2));
+      return rec;
+    },
+    async list(filter = {}) {
+      let names: string[] = [];
+      try { names = (await readdir(root)).filter(n => n.endsWith(".json")); } catch { return []; }
+      const out: StatementSummary[] = [];
+      for (const n of names) {
+        const rec = await get(n.slice(0, -5));
+        if (!rec) continue;
+        const s = summarize(rec);
+        if (matchesFilter(s, filter)) out.push(s);
+      }
+      return out.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    },
+    async delete(id) {
+      if (!SAFE_ID.test(id)) return false;
+      try { await unlink(pathOf(id)); return true; }
+      catch { return false; }
+    },
+  };
+}
+
+/** Store configured by BANK2JE_STORE_DIR (default data/statements). */
+export function getStatementStore(): StatementStore {
+  return createFileStatementStore(process.env.BANK2JE_STORE_DIR ?? "data/statements");
+}
@@ -1,6 +1,7 @@
-export type NormalizedAmount = string;     // "10000.50" or "-12.34"
+export type NormalizedAmount = string;     // "10000.50" or "-12.34"; currency minor units ("1500" JPY, "1.250" BHD)
 export type ISODate = string;              // "YYYY-MM-DD"
 export type ISOCurrency = string;          // "USD", "PHP", etc. or "unknown"
+export type AccountType = "deposit" | "credit_card" | "loan";   // cards and loans: balances are amounts owed
 
 export type NormalizedHeader = {
   bank: string;                     // alphanumerics only
@@ -10,19 +11,86 @@ export type NormalizedHeader = {
   opening_balance: NormalizedAmount;
   closing_balance: NormalizedAmount;
   currency: ISOCurrency;
+  account_type: AccountType;        // detected from content or set explicitly; decides the balance equation
   row_point: string;                // 5 decimals as string, e.g. "0.43210"
 };
 
 export type NormalizedTxn = {
   date: ISODate;                    // YYYY-MM-DD
   description: string;
-  amount: NormalizedAmount;         // signed, 2dp, no commas, dot decimal
+  amount: NormalizedAmount;         // signed from the holder's side (spending < 0), no commas, dot decimal
   currency: ISOCurrency;            // ISO or "unknown"
   row_point: string;                // 5 decimals
+  fitid?: string;                   // bank transaction id when the source provides one
+  running_balance?: NormalizedAmount; // balance printed on the statement line, if any
+  source?: string;                  // source text the row came from (CSV/XLSX row, PDF line + wrapped lines)
+  functional_amount?: NormalizedAmount; // amount in the books' functional currency (FX conversion, see footer.fx)
+  fx_rate?: string;                 // functional-currency units per 1 unit of `currency`
+  fx_rate_date?: ISODate;           // date of the rate used (the policy may pick an earlier one)
+  ocr?: TxnOcrConfidence;           // OCR'd statements: confidence of the words the row was read from
+};
+
+export type TxnOcrConfidence = {
+  confidence: number;               // mean word confidence, 0..100 (Tesseract scale)
+  words: number;
+  low_confidence_words: string[];   // words below the threshold; their share lowers row_point
+};
+
+export type BalanceChainReport = {
+  checked: number;                  // rows with a printed running balance
+  ok: boolean;
+  order?: "ascending" | "descending";
+  first_break: null | {
+    index: number;                  // index into transactions
+    previous_balance: NormalizedAmount;
+    amount: NormalizedAmount;
+    expected: NormalizedAmount;     // previous_balance + amount (− amount for cards and loans)
+    actual: NormalizedAmount;       // printed running balance
+    difference: NormalizedAmount;   // actual - expected
+  };
+};
+
+// How transaction dates were read (one order for the whole statement)
+export type DateResolution = {
+  order: "DMY" | "MDY";
+  source: "evidence" | "hint" | "default";   // cells with a part > 12 / bank profile / fallback
+  ambiguous_rows: number[];                  // txn indexes readable both ways when nothing decided the order
+  years_inferred: number;                    // short dates ("Jul 31") given the statement-period year
+};
+
+// Why opening + transactions != closing: the gap plus ranked guesses for reviewers
+export type ReconcileSuggestion = {
+  kind: "sign_flip" | "duplicate_rows" | "digit_swap" | "missing_rows";
+  confidence: number;               // 0..1, suggestions are sorted by it
+  rows: number[];                   // txn indexes to look at (for missing_rows: rows around the suspected gap)
+  amount?: NormalizedAmount;        // corrected amount (sign_flip, digit_swap) or the missing total (missing_rows)
+  message: string;
+};
+
+export type ReconciliationReport = {
+  discrepancy: NormalizedAmount;    // closing - opening - sum(transactions); opening - closing - sum for cards and loans
+  suggestions: ReconcileSuggestion[];
+};
+
+export type FxPolicy = "same_day" | "previous_business_day" | "month_end";
+
+// Functional-currency conversion summary; balances and the balance check stay in the account currency
+export type FxReport = {
+  functional_currency: ISOCurrency;
+  policy: FxPolicy;
+  converted: number;                // rows with a functional_amount
+  missing_rates: number[];          // txn indexes with no usable rate
+  total_functional: NormalizedAmount; // sum of converted rows, functional currency
+  rate_errors?: string[];           // rates-file lines skipped as unreadable
 };
 
 export type NormalizedFooter = {
   doc_point: string;                // 5 decimals
+  balance_chain?: BalanceChainReport; // present when rows carry running balances
+  date_resolution?: DateResolution;   // present when dates were resolved from raw text
+  reconciliation?: ReconciliationReport; // present when the statement does not balance
+  fx?: FxReport;                      // present when a functional currency was requested
+  ocr?: OcrSummary;                   // present when the text came from OCR
 };
 
 export type NormalizedStatement = {
@@ -30,8 +98,74 @@ export type NormalizedStatement = {
   transactions: NormalizedTxn[];
   footer: NormalizedFooter;
 };
+// ===== Score explanations (?explain=1) =====
+export type ScoreCheck = {
+  name: string;                     // "date_parsed", "amount_well_formed", "balanced_bonus", ...
+  weight: number;                   // negative for penalties (OCR low-confidence words)
+  value: number;                    // 0..1; 1 = passed (description length and sub-scores can be partial)
+  passed: boolean;
+  contribution: number;             // weight × value
+};
+
+export type ScoreExplanation = {
+  score: string;                    // the same 5-decimal string reported as row_point / doc_point
+  checks: ScoreCheck[];
+  jitter: number;                   // deterministic tie-breaker added before rounding (0 for doc_point)
+};
+
+export type StatementExplanation = {
+  header: ScoreExplanation;
+  rows: ScoreExplanation[];         // one per transaction, same order
+  document: ScoreExplanation;
+};
+
+// ===== PDF layout mode (pdf.js text items with coordinates) =====
+export type LayoutItem = { str: string; x: number; y: number; width: number; height: number };
+export type LayoutPage = { page: number; items: LayoutItem[] };
+
+export type ColumnRole = "date" | "description" | "debit" | "credit" | "amount" | "balance";
+export type ColumnBand = { role: ColumnRole; label: string; x0: number; x1: number };  // header cell extent
+export type LayoutRow = { page: number; y: number; cells: Partial<Record<ColumnRole, string>> };
+export type LayoutTable = { columns: ColumnBand[]; rows: LayoutRow[] };
+
 export type PdfParseResult = {
   text?: string;
   warnings?: string[];
-  strategy?: "pdf-parse" | "pdfjs-dist" | "ocr";
-};
\ No newline at end of file
+  strategy?: "pdf-parse" | "pdfjs-dist" | "pdfjs-layout" | "ocr";
+  layout?: LayoutTable;             // only for strategy "pdfjs-layout"
+  password_error?: "required" | "incorrect";   // encrypted PDF that no uploaded/candidate password opened
+  ocr?: OcrReport;                  // only for strategy "ocr"
+};
+
+// ===== OCR (tesseract.js) =====
+export type OcrWord = { text: string; confidence: number };   // confidence 0..100
+export type OcrLine = { text: string; confidence: number; words: OcrWord[] };
+export type OcrPage = {
+  page: number;                     // 1-based
+  confidence: number;               // Tesseract's page confidence, 0..100
+  skew_degrees: number;             // rotation corrected before recognition (0 = none)
+  lines: OcrLine[];
+};
+export type OcrReport = { languages: string[]; confidence: number; pages: OcrPage[] };
+
+export type OcrSummary = {
+  languages: string[];
+  confidence: number;               // mean of the page confidences
+  pages: Array<{ page: number; confidence: number }>;
+  low_confidence_rows: number[];    // transaction indexes holding low-confidence words
+};
+
+export type JournalLine = {
+  account: string;                  // GL account code
+  debit: NormalizedAmount;          // >= 0, currency minor units
+  credit: NormalizedAmount;         // >= 0, currency minor units
+  memo: string;
+};
+
+export type JournalEntry = {
+  txn_index: number;                // index into NormalizedStatement.transactions
+  date: ISODate;
+  description: string;
+  currency: ISOCurrency;
+  lines: JournalLine[];             // sum(debit) == sum(credit)
+};
@@ -1,9 +1,85 @@
 import * as XLSX from "xlsx";
+import { amountCells, detectColumnRoles, mapWithRoles } from "./column-roles";
+import { Cell, findHeaderRow, mergeMeta, metaFromPreamble, preambleAmounts } from "./preamble";
+import { inferNumberFormat } from "./amount-parser";
+import type { InRow, Meta, ParsedRows } from "./rows-to-normalized";
 
-export async function parseXlsx(buf: Buffer) {
-  const workbook = XLSX.read(buf, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0]; // Take the first sheet
-  const sheet = workbook.Sheets[sheetName];
-  const rows = XLSX.utils.sheet_to_json(sheet, { defval: "" }); 
-  return rows; 
+export type XlsxParseResult = ParsedRows & { sheets: string[] };   // sheets that held a transaction table
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+// Read cells natively: date-formatted serials → YYYY-MM-DD, numbers stay numbers, text as-is
+function sheetGrid(sheet: XLSX.WorkSheet): Cell[][] {
+  if (!sheet["!ref"]) return [];
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+  const grid: Cell[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: Cell[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell: XLSX.CellObject | undefined = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (!cell || cell.v === undefined || cell.v === null) { row.push(""); continue; }
+      if (cell.t === "n" && typeof cell.v === "number" && cell.z && XLSX.SSF.is_date(String(cell.z))) {
+        const d = XLSX.SSF.parse_date_code(cell.v);
+        row.push(d ? `${d.y}-${pad2(d.m)}-${pad2(d.d)}` : cell.v);
+      } else if (cell.t === "d" && cell.v instanceof Date) {
+        const d = cell.v;
+        row.push(`${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`);
+      } else if (cell.t === "n" || cell.t === "b") {
+        row.push(cell.t === "b" ? String(cell.v) : (cell.v as number));
+      } else {
+        row.push(String(cell.v).trim());
+      }
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
+// Serial that slipped through without a date format (1954-01-01 .. 2173-10-14)
+function serialToIso(v: Cell): Cell {
+  if (typeof v !== "number" || v < 20000 || v > 100000) return v;
+  const d = XLSX.SSF.parse_date_code(v);
+  return d ? `${d.y}-${pad2(d.m)}-${pad2(d.d)}` : v;
+}
+
+function parseSheet(grid: Cell[][]): { rows: InRow[]; meta: Meta } | null {
+  const h = findHeaderRow(grid);
+  if (h < 0) return null;
+
+  const headers = grid[h].map((c, i) => String(c ?? "").trim() || `__col${i}`);
+  const records = grid.slice(h + 1).map(r => Object.fromEntries(headers.map((k, i) => [k, r[i] ?? ""])));
+  const roles = detectColumnRoles(headers, records.slice(0, 50));
+  // numeric cells are exact; amounts typed as text follow the sheet's own format
+  const fmt = inferNumberFormat([...amountCells(records, roles), ...preambleAmounts(grid.slice(0, h))]);
+
+  const rows: InRow[] = [];
+  const trailer: Cell[][] = [];   // non-transaction lines below the table (totals, closing balance)
+  records.forEach((rec, i) => {
+    if (roles.date) rec[roles.date] = serialToIso(rec[roles.date] as Cell);
+    const row = mapWithRoles(rec, roles, fmt);
+    if (row.date && /\d/.test(row.date)) rows.push({ ...row, source: grid[h + 1 + i].map(c => String(c ?? "")).join(" | ") });
+    else trailer.push(grid[h + 1 + i]);
+  });
+
+  return { rows, meta: mergeMeta([metaFromPreamble(grid.slice(0, h), fmt), metaFromPreamble(trailer, fmt)]) };
+}
+
+/**
+ * Parse every sheet that contains a transaction table (header row found by column roles).
+ * Preamble key/value cells above the table (and totals below it) become header meta;
+ * months split across sheets are concatenated in workbook order.
+ */
+export async function parseXlsx(buf: Buffer): Promise<XlsxParseResult> {
+  const workbook = XLSX.read(buf, { type: "buffer", cellNF: true });   // cellNF keeps number formats (date detection)
+  const rows: InRow[] = [];
+  const metas: Meta[] = [];
+  const sheets: string[] = [];
+  for (const name of workbook.SheetNames) {
+    const parsed = parseSheet(sheetGrid(workbook.Sheets[name]));
+    if (!parsed || !parsed.rows.length) continue;
+    rows.push(...parsed.rows);
+    metas.push(parsed.meta);
+    sheets.push(name);
+  }
+  return { rows, meta: mergeMeta(metas), sheets };
 }